@@ -12,6 +12,8 @@ const eslintConfig = defineConfig([
     "out/**",
     "build/**",
     "next-env.d.ts",
+    // Vendored OpenCV.js copied by scripts/copy-opencv.mjs:
+    "public/vendor/**",
   ]),
 ]);
 
@@ -0,0 +1,93 @@
+import { createHash } from 'crypto';
+import { readFile, writeFile, mkdir, readdir, rm } from 'fs/promises';
+import { join } from 'path';
+
+// npmでバージョンを固定したOpenCV.jsを public/ 配下にコピーする
+// コミット済みの opencv-asset.json（バージョンと整合性チェック用のハッシュ）を正とし、
+// インストールされたファイルが一致しない場合はコピーせずに失敗する
+// 固定するバージョンを更新する場合は、パッケージを更新した上で npm run update-opencv-pin を実行する
+const PACKAGE_DIR = join(process.cwd(), 'node_modules', '@techstark', 'opencv-js');
+const VENDOR_DIR = join(process.cwd(), 'public', 'vendor', 'opencv');
+const ASSET_FILE = join(process.cwd(), 'src', 'lib', 'opencv-asset.json');
+
+// インストール済みのパッケージのバージョンと、opencv.jsの内容・整合性ハッシュを読み込む
+async function readInstalledOpenCv() {
+  let packageJson;
+  try {
+    packageJson = JSON.parse(await readFile(join(PACKAGE_DIR, 'package.json'), 'utf-8'));
+  } catch {
+    console.error(`エラー: ${PACKAGE_DIR} が見つかりません（npm install を実行してください）`);
+    process.exit(1);
+  }
+
+  const script = await readFile(join(PACKAGE_DIR, 'dist', 'opencv.js'));
+  const integrity = `sha384-${createHash('sha384').update(script).digest('base64')}`;
+  return { version: packageJson.version, script, integrity };
+}
+
+// インストール済みのOpenCV.jsでバージョンとハッシュを固定し直す（--update 指定時のみ）
+async function updatePin() {
+  const { version, integrity } = await readInstalledOpenCv();
+  const asset = {
+    version,
+    path: `/vendor/opencv/opencv-${version}.js`,
+    integrity,
+  };
+  await writeFile(ASSET_FILE, JSON.stringify(asset, null, 2) + '\n', 'utf-8');
+
+  console.log(`✓ OpenCV.jsのバージョンと整合性ハッシュを固定しました:`);
+  console.log(`  - バージョン: ${version}`);
+  console.log(`  - 整合性ハッシュ: ${integrity}`);
+  console.log('opencv-asset.json の変更をコミットしてください');
+}
+
+async function copyOpenCv() {
+  console.log('OpenCV.jsを配置中...');
+
+  const asset = JSON.parse(await readFile(ASSET_FILE, 'utf-8'));
+  const { version, script, integrity } = await readInstalledOpenCv();
+
+  if (version !== asset.version) {
+    console.error(`エラー: インストールされたOpenCV.jsのバージョン（${version}）が固定したバージョン（${asset.version}）と異なります`);
+    console.error('package.json のバージョンに合わせて npm install を実行するか、更新する場合は npm run update-opencv-pin を実行してください');
+    process.exit(1);
+  }
+  if (integrity !== asset.integrity) {
+    console.error(`エラー: インストールされたOpenCV.jsの整合性ハッシュが固定した値と一致しません`);
+    console.error(`  - 固定した値: ${asset.integrity}`);
+    console.error(`  - インストール済み: ${integrity}`);
+    process.exit(1);
+  }
+
+  // バージョンをファイル名に含め、古いバージョンのファイルは削除する
+  const fileName = asset.path.split('/').pop();
+  await mkdir(VENDOR_DIR, { recursive: true });
+  for (const file of await readdir(VENDOR_DIR)) {
+    if (file !== fileName) {
+      await rm(join(VENDOR_DIR, file));
+      console.log(`✓ 古いファイルを削除しました: ${file}`);
+    }
+  }
+  await writeFile(join(VENDOR_DIR, fileName), script);
+
+  console.log(`\n✓ OpenCV.jsの配置完了:`);
+  console.log(`  - バージョン: ${version}`);
+  console.log(`  - サイズ: ${(script.length / 1024 / 1024).toFixed(1)} MB`);
+  console.log(`  - 配置先: ${asset.path}`);
+  console.log(`  - 整合性ハッシュ: ${integrity}（固定した値と一致）`);
+}
+
+async function main() {
+  try {
+    if (process.argv.includes('--update')) {
+      await updatePin();
+    } else {
+      await copyOpenCv();
+    }
+  } catch (error) {
+    console.error('エラー:', error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,411 @@
+import { readdir, readFile, writeFile } from 'fs/promises';
+import { extname, join, relative } from 'path';
+import sharp from 'sharp';
+import cvModule from '@techstark/opencv-js';
+import { CARD_CATALOGUE } from '@/src/lib/cardCatalogue';
+import { recognizeStillImage, stillImageSize, type DeckMasterData } from '@/src/lib/cardRecognition';
+import type { QuadStatus } from '@/src/lib/cardDetection';
+import {
+  descriptorDatabaseUrl,
+  isDescriptorDatabaseCompatible,
+  loadDescriptorDatabase,
+  type DescriptorDatabase,
+} from '@/src/lib/descriptorDatabase';
+import {
+  DEFAULT_FEATURE_STRATEGY,
+  FEATURE_STRATEGIES,
+  isFeatureStrategyId,
+  type FeatureStrategy,
+} from '@/src/lib/featureStrategies';
+import { setLogThreshold } from '@/src/lib/logger';
+import { assessConfidence, DEFAULT_CONFIDENCE_THRESHOLDS, type ConfidenceThresholds } from '@/src/lib/matchConfidence';
+import {
+  AUTO_DETECT_DECK,
+  findManifestIncompatibility,
+  listDecks,
+  type MasterManifest,
+  type RgbaImage,
+} from '@/src/lib/masterData';
+import { waitForOpenCv } from '@/src/lib/opencvRuntime';
+
+// ラベル付きのテスト画像を、アプリで画像ファイルを読み込んだときと同じ検出・マッチング処理で認識し、精度を集計する
+// テスト画像はカードIDのフォルダに分けて置く（例: <フォルダ>/FOOL/001.jpg）
+// カードが写っていない画像は _none フォルダに置くと、「該当カードなし」と判定されるべき画像として集計する
+const PUBLIC_DIR = join(process.cwd(), 'public');
+const MASTER_LIST_FILE = join(PUBLIC_DIR, 'lib', 'master-list.json');
+const NONE_LABEL = '_none';
+// 混同行列で「該当カードなし」と判定された画像の予測ラベル
+const REJECTED_LABEL = '(rejected)';
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp'];
+// 上位何件までに正解が含まれていれば正解とみなすか（top-1に加えて集計する）
+const TOP_K_ACCURACY = 3;
+
+const USAGE = `使い方: npm run evaluate -- <テスト画像のフォルダ> [オプション]
+  --strategy <orb|akaze|brisk>  特徴量の戦略（既定: ${DEFAULT_FEATURE_STRATEGY}）
+  --deck <デッキID|${AUTO_DETECT_DECK}>       照合するデッキ（既定: マニフェストの最初のデッキ）
+  --prefilter-top-k <数>         特徴点マッチングする上位の枚数（既定: 10、0以下で絞り込まない）
+  --min-score <数>               「該当カードなし」の閾値: 1位のスコア（既定: ${DEFAULT_CONFIDENCE_THRESHOLDS.minScore}）
+  --min-margin <数>              「該当カードなし」の閾値: 1位と2位の差（既定: ${DEFAULT_CONFIDENCE_THRESHOLDS.minMargin}）
+  --min-confidence <数>          「該当カードなし」の閾値: 信頼度（既定: ${DEFAULT_CONFIDENCE_THRESHOLDS.minConfidence}）
+  --output <ファイル>            結果をJSONで書き出す（実行ごとの比較用）
+  --verbose                      マッチングの詳細ログを出力する`;
+
+interface EvaluationOptions {
+  dir: string;
+  strategy: FeatureStrategy;
+  deck: string | null;
+  prefilterTopK: number;
+  thresholds: ConfidenceThresholds;
+  output: string | null;
+  verbose: boolean;
+}
+
+// 1枚の画像の評価結果
+interface ImageEvaluation {
+  file: string; // テスト画像のフォルダからの相対パス
+  label: string; // 正解のカードID（カードが写っていない画像は _none）
+  predicted: string | null; // 1位の候補（候補がない場合はnull）
+  topCandidates: Array<{ cardId: string; score: number }>;
+  deckId: string;
+  confidence: number | null;
+  rejected: boolean; // 「該当カードなし」と判定されたか
+  correctTop1: boolean;
+  correctTopK: boolean;
+  detectedCards: number;
+  quadStatus: QuadStatus;
+  timing: { detectMs: number; prefilterMs: number; featuresMs: number; matchingMs: number; totalMs: number };
+}
+
+interface TimingSummary {
+  meanMs: number;
+  medianMs: number;
+  p95Ms: number;
+  maxMs: number;
+}
+
+// 実行ごとに比較するための集計結果（--outputで書き出す形式）
+interface EvaluationReport {
+  createdAt: string;
+  config: {
+    dir: string;
+    strategy: string;
+    deck: string;
+    prefilterTopK: number;
+    thresholds: ConfidenceThresholds;
+  };
+  summary: {
+    images: number;
+    cardImages: number; // カードが写っている画像の数
+    noneImages: number; // _none の画像の数
+    top1Accuracy: number | null; // カードが写っている画像のうち、1位が正解だった割合
+    topKAccuracy: number | null; // 上位TOP_K_ACCURACY件に正解が含まれていた割合
+    topK: number;
+    rejectionRate: number | null; // カードが写っている画像のうち、「該当カードなし」と判定された割合
+    acceptedAccuracy: number | null; // 「該当カードなし」と判定されなかった画像のうち、1位が正解だった割合
+    falseAcceptanceRate: number | null; // _none の画像のうち、カードがあると判定された割合
+    detectionRate: number | null; // カードの矩形を検出できた割合
+    timing: TimingSummary | null; // 1枚あたりの処理時間（検出とマッチングの合計）
+  };
+  confusion: Record<string, Record<string, number>>; // 正解 → 予測（「該当カードなし」は (rejected)） → 枚数
+  images: ImageEvaluation[];
+}
+
+function parseNumberOption(name: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (value === undefined || Number.isNaN(parsed)) {
+    throw new Error(`${name} には数値を指定してください`);
+  }
+  return parsed;
+}
+
+function parseArgs(args: string[]): EvaluationOptions {
+  let dir: string | null = null;
+  let strategyId: string = DEFAULT_FEATURE_STRATEGY;
+  let deck: string | null = null;
+  let prefilterTopK = 10;
+  const thresholds = { ...DEFAULT_CONFIDENCE_THRESHOLDS };
+  let output: string | null = null;
+  let verbose = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '--strategy':
+        strategyId = args[++i];
+        break;
+      case '--deck':
+        deck = args[++i];
+        break;
+      case '--prefilter-top-k':
+        prefilterTopK = parseNumberOption(arg, args[++i]);
+        break;
+      case '--min-score':
+        thresholds.minScore = parseNumberOption(arg, args[++i]);
+        break;
+      case '--min-margin':
+        thresholds.minMargin = parseNumberOption(arg, args[++i]);
+        break;
+      case '--min-confidence':
+        thresholds.minConfidence = parseNumberOption(arg, args[++i]);
+        break;
+      case '--output':
+        output = args[++i];
+        break;
+      case '--verbose':
+        verbose = true;
+        break;
+      default:
+        if (arg.startsWith('--') || dir !== null) {
+          throw new Error(`不明な引数です: ${arg}`);
+        }
+        dir = arg;
+    }
+  }
+
+  if (!dir) {
+    throw new Error('テスト画像のフォルダを指定してください');
+  }
+  if (!isFeatureStrategyId(strategyId)) {
+    throw new Error(`不明な特徴量の戦略です: ${strategyId}`);
+  }
+  return { dir, strategy: FEATURE_STRATEGIES[strategyId], deck, prefilterTopK, thresholds, output, verbose };
+}
+
+// 画像ファイルをRGBAの画素データとして読み込む（アプリと同様に、EXIFの向きを反映して長辺を縮小する）
+async function loadStillImage(path: string): Promise<RgbaImage> {
+  const image = sharp(path).rotate();
+  const { width, height } = await image.metadata().then((metadata) =>
+    // 90度・270度回転するEXIFの向きでは縦横が入れ替わる
+    (metadata.orientation ?? 1) >= 5
+      ? { width: metadata.height ?? 0, height: metadata.width ?? 0 }
+      : { width: metadata.width ?? 0, height: metadata.height ?? 0 }
+  );
+  const { data, info } = await image
+    .resize(stillImageSize(width, height))
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data: new Uint8ClampedArray(data), width: info.width, height: info.height };
+}
+
+// テスト画像を正解ラベル（フォルダ名）とともに列挙する
+async function listLabelledImages(dir: string): Promise<Array<{ path: string; label: string }>> {
+  const cardIds = new Set(CARD_CATALOGUE.map((card) => card.id));
+  const images: Array<{ path: string; label: string }> = [];
+  const entries = await readdir(dir, { withFileTypes: true });
+
+  for (const entry of entries.filter((e) => e.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+    const label = entry.name;
+    if (label !== NONE_LABEL && !cardIds.has(label)) {
+      console.warn(`⚠ ${label}: カードIDではないフォルダのためスキップします`);
+      continue;
+    }
+    const files = await readdir(join(dir, label));
+    for (const file of files.sort()) {
+      if (IMAGE_EXTENSIONS.includes(extname(file).toLowerCase())) {
+        images.push({ path: join(dir, label, file), label });
+      }
+    }
+  }
+  return images;
+}
+
+// 計算済み特徴量（npm run generate-descriptors の出力）からデッキのマスターデータを読み込む
+async function loadDeckMasterData(cv: OpenCV, deckId: string, strategy: FeatureStrategy): Promise<DeckMasterData> {
+  const file = join(PUBLIC_DIR, descriptorDatabaseUrl(deckId, strategy.id));
+  let database: DescriptorDatabase;
+  try {
+    database = JSON.parse(await readFile(file, 'utf-8'));
+  } catch {
+    throw new Error(`${file} が見つかりません（先に npm run generate-descriptors を実行してください）`);
+  }
+  if (!isDescriptorDatabaseCompatible(database, strategy)) {
+    throw new Error(`${file} の形式・設定が現在の設定（${strategy.label}）と異なります（npm run generate-descriptors で再生成してください）`);
+  }
+  return { id: deckId, cards: loadDescriptorDatabase(cv, database) };
+}
+
+function ratio(count: number, total: number): number | null {
+  return total > 0 ? Math.round((count / total) * 10000) / 10000 : null;
+}
+
+function summarizeTimings(values: number[]): TimingSummary | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+  return {
+    meanMs: Math.round(sorted.reduce((sum, v) => sum + v, 0) / sorted.length),
+    medianMs: at(0.5),
+    p95Ms: at(0.95),
+    maxMs: sorted[sorted.length - 1],
+  };
+}
+
+function formatRatio(value: number | null): string {
+  return value === null ? '-' : `${(value * 100).toFixed(1)}%`;
+}
+
+function printReport(report: EvaluationReport) {
+  const { summary, config } = report;
+  console.log(`\n=== 評価結果（${config.strategy}, デッキ: ${config.deck}） ===`);
+  console.log(`画像: ${summary.images} 枚（カード ${summary.cardImages} 枚, ${NONE_LABEL} ${summary.noneImages} 枚）`);
+  console.log(`top-1 正解率: ${formatRatio(summary.top1Accuracy)}`);
+  console.log(`top-${summary.topK} 正解率: ${formatRatio(summary.topKAccuracy)}`);
+  console.log(`「該当カードなし」の割合: ${formatRatio(summary.rejectionRate)}`);
+  console.log(`「該当カードなし」以外での正解率: ${formatRatio(summary.acceptedAccuracy)}`);
+  console.log(`${NONE_LABEL} の誤受理率: ${formatRatio(summary.falseAcceptanceRate)}`);
+  console.log(`矩形の検出率: ${formatRatio(summary.detectionRate)}`);
+  if (summary.timing) {
+    const { meanMs, medianMs, p95Ms, maxMs } = summary.timing;
+    console.log(`処理時間: 平均 ${meanMs}ms, 中央値 ${medianMs}ms, p95 ${p95Ms}ms, 最大 ${maxMs}ms`);
+  }
+
+  // 78枚の混同行列は表として読みにくいため、誤った判定の組み合わせを多い順に表示する
+  const mistakes = Object.entries(report.confusion)
+    .flatMap(([actual, row]) =>
+      Object.entries(row)
+        .filter(([predicted]) => predicted !== (actual === NONE_LABEL ? REJECTED_LABEL : actual))
+        .map(([predicted, count]) => ({ actual, predicted, count }))
+    )
+    .sort((a, b) => b.count - a.count);
+  if (mistakes.length > 0) {
+    console.log('\n誤った判定（正解 → 予測）:');
+    for (const { actual, predicted, count } of mistakes) {
+      console.log(`  ${actual} → ${predicted}: ${count} 枚`);
+    }
+  }
+  console.log('============================\n');
+}
+
+async function evaluate() {
+  let options: EvaluationOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`エラー: ${(error as Error).message}\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  try {
+    // 画像ごとのマッチングの詳細は --verbose の場合のみ出力する
+    setLogThreshold(options.verbose ? 'debug' : 'warn');
+    const { dir, strategy, prefilterTopK, thresholds } = options;
+
+    const manifest: MasterManifest = JSON.parse(await readFile(MASTER_LIST_FILE, 'utf-8'));
+    const incompatibility = findManifestIncompatibility(manifest);
+    if (incompatibility) {
+      throw new Error(incompatibility);
+    }
+    const deckInfos = listDecks(manifest);
+    const deck = options.deck ?? deckInfos[0]?.id;
+    if (!deck || (deck !== AUTO_DETECT_DECK && !manifest.decks[deck])) {
+      throw new Error(`デッキ「${deck ?? ''}」がマニフェストにありません`);
+    }
+    const deckIds = deck === AUTO_DETECT_DECK ? deckInfos.map((info) => info.id) : [deck];
+
+    const labelledImages = await listLabelledImages(dir);
+    if (labelledImages.length === 0) {
+      throw new Error(`${dir} にテスト画像がありません（カードIDのフォルダに画像を置いてください）`);
+    }
+
+    const { cv } = await waitForOpenCv(cvModule);
+    const decks: DeckMasterData[] = [];
+    for (const deckId of deckIds) {
+      decks.push(await loadDeckMasterData(cv, deckId, strategy));
+    }
+    console.log(`${labelledImages.length} 枚のテスト画像を評価します（${strategy.label}, デッキ: ${deckIds.join(', ')}）`);
+
+    const evaluations: ImageEvaluation[] = [];
+    for (const [index, { path, label }] of labelledImages.entries()) {
+      const file = relative(dir, path);
+      let src = null;
+      try {
+        src = cv.matFromImageData(await loadStillImage(path));
+        const { rects, stats, detectMs, results } = recognizeStillImage(cv, src, decks, strategy, {
+          multiCard: false,
+          prefilterTopK,
+        });
+        const [{ candidates, timing, deckId }] = results;
+        const confidence = assessConfidence(candidates, thresholds);
+        const topCardIds = candidates.slice(0, TOP_K_ACCURACY).map((c) => c.cardId);
+        const evaluation: ImageEvaluation = {
+          file,
+          label,
+          predicted: candidates[0]?.cardId ?? null,
+          topCandidates: candidates.slice(0, TOP_K_ACCURACY).map((c) => ({ cardId: c.cardId, score: c.score })),
+          deckId,
+          confidence: confidence?.value ?? null,
+          rejected: !confidence?.isConfident,
+          correctTop1: candidates[0]?.cardId === label,
+          correctTopK: topCardIds.includes(label),
+          detectedCards: rects.length,
+          quadStatus: stats.quadStatus,
+          timing: {
+            detectMs,
+            prefilterMs: timing.prefilterMs,
+            featuresMs: timing.featuresMs,
+            matchingMs: timing.matchingMs,
+            totalMs: detectMs + timing.totalMs,
+          },
+        };
+        evaluations.push(evaluation);
+
+        const mark = label === NONE_LABEL ? (evaluation.rejected ? '✓' : '✗') : (evaluation.correctTop1 ? '✓' : '✗');
+        console.log(
+          `${mark} [${index + 1}/${labelledImages.length}] ${file}: ` +
+          `${evaluation.rejected ? REJECTED_LABEL : evaluation.predicted} ` +
+          `(1位: ${evaluation.predicted ?? '-'}, ${evaluation.timing.totalMs}ms)`
+        );
+      } catch (error) {
+        console.warn(`⚠ ${file}: 評価できませんでした (スキップします)`, error);
+      } finally {
+        if (src) src.delete();
+      }
+    }
+
+    const cardEvaluations = evaluations.filter((e) => e.label !== NONE_LABEL);
+    const noneEvaluations = evaluations.filter((e) => e.label === NONE_LABEL);
+    const accepted = cardEvaluations.filter((e) => !e.rejected);
+    const confusion: EvaluationReport['confusion'] = {};
+    for (const e of evaluations) {
+      const predicted = e.rejected || !e.predicted ? REJECTED_LABEL : e.predicted;
+      const row = (confusion[e.label] ??= {});
+      row[predicted] = (row[predicted] ?? 0) + 1;
+    }
+
+    const report: EvaluationReport = {
+      createdAt: new Date().toISOString(),
+      config: { dir, strategy: strategy.id, deck, prefilterTopK, thresholds },
+      summary: {
+        images: evaluations.length,
+        cardImages: cardEvaluations.length,
+        noneImages: noneEvaluations.length,
+        top1Accuracy: ratio(cardEvaluations.filter((e) => e.correctTop1).length, cardEvaluations.length),
+        topKAccuracy: ratio(cardEvaluations.filter((e) => e.correctTopK).length, cardEvaluations.length),
+        topK: TOP_K_ACCURACY,
+        rejectionRate: ratio(cardEvaluations.length - accepted.length, cardEvaluations.length),
+        acceptedAccuracy: ratio(accepted.filter((e) => e.correctTop1).length, accepted.length),
+        falseAcceptanceRate: ratio(noneEvaluations.filter((e) => !e.rejected).length, noneEvaluations.length),
+        detectionRate: ratio(cardEvaluations.filter((e) => e.detectedCards > 0).length, cardEvaluations.length),
+        timing: summarizeTimings(evaluations.map((e) => e.timing.totalMs)),
+      },
+      confusion,
+      images: evaluations,
+    };
+
+    printReport(report);
+    if (options.output) {
+      await writeFile(options.output, JSON.stringify(report, null, 2), 'utf-8');
+      console.log(`✓ 結果を書き出しました: ${options.output}`);
+    }
+    // OpenCV.jsのランタイムが終了を妨げるため明示的に終了する
+    process.exit(0);
+  } catch (error) {
+    console.error('エラー:', error);
+    process.exit(1);
+  }
+}
+
+evaluate();
@@ -0,0 +1,104 @@
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import sharp from 'sharp';
+import cvModule from '@techstark/opencv-js';
+import { createDescriptorDatabase, descriptorDatabaseUrl, serializeMasterImage } from '@/src/lib/descriptorDatabase';
+import { FEATURE_STRATEGIES, type FeatureStrategy } from '@/src/lib/featureStrategies';
+import {
+  computeMasterImageData,
+  findManifestIncompatibility,
+  type MasterList,
+  type MasterManifest,
+  type RgbaImage,
+} from '@/src/lib/masterData';
+import { waitForOpenCv } from '@/src/lib/opencvRuntime';
+
+// master-list.json に列挙されたマスター画像の特徴量をデッキ・戦略ごとにビルド時に計算し、
+// ブラウザがそのままcv.Matに読み込める形式で出力する
+const PUBLIC_DIR = join(process.cwd(), 'public');
+const MASTER_DIR = join(PUBLIC_DIR, 'master');
+const MASTER_LIST_FILE = join(PUBLIC_DIR, 'lib', 'master-list.json');
+
+// 画像ファイルをRGBAの画素データとして読み込む（ブラウザと同様にEXIFの向きを反映する）
+async function loadRgbaImage(path: string): Promise<RgbaImage> {
+  const { data, info } = await sharp(path).rotate().ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  return { data: new Uint8ClampedArray(data), width: info.width, height: info.height };
+}
+
+// 1つのデッキ・戦略でマスター画像の特徴量データベースを生成
+async function generateStrategyDescriptors(cv: OpenCV, deckId: string, masterList: MasterList, strategy: FeatureStrategy) {
+  console.log(`\n[${deckId} / ${strategy.label}] マスター画像の特徴量を計算中...`);
+  const database = createDescriptorDatabase(strategy);
+  let totalImages = 0;
+
+  for (const [cardId, imageEntries] of Object.entries(masterList)) {
+    const images = [];
+    for (const { file: imageFile } of imageEntries) {
+      const imagePath = join(MASTER_DIR, deckId, cardId, imageFile);
+      let src = null;
+      try {
+        src = cv.matFromImageData(await loadRgbaImage(imagePath));
+        const masterImage = computeMasterImageData(cv, src, strategy, imageFile);
+        try {
+          images.push(serializeMasterImage(masterImage));
+        } finally {
+          masterImage.descriptors.delete();
+        }
+      } catch (error) {
+        console.warn(`⚠ ${cardId}/${imageFile}: 特徴量を計算できませんでした (スキップします)`, error);
+      } finally {
+        if (src) src.delete();
+      }
+    }
+
+    if (images.length > 0) {
+      database.cards[cardId] = images;
+      totalImages += images.length;
+      const totalKeypoints = images.reduce((sum, image) => sum + image.keypoints.length / 2, 0);
+      console.log(`✓ ${cardId}: ${images.length} 枚の画像、合計 ${totalKeypoints} 個の特徴点`);
+    } else {
+      console.warn(`⚠ ${cardId}: 有効な画像が1枚も見つかりませんでした`);
+    }
+  }
+
+  const outputFile = join(PUBLIC_DIR, descriptorDatabaseUrl(deckId, strategy.id));
+  const jsonContent = JSON.stringify(database);
+  await writeFile(outputFile, jsonContent, 'utf-8');
+
+  console.log(`✓ [${deckId} / ${strategy.label}] 特徴量データベース生成完了:`);
+  console.log(`  - カード数: ${Object.keys(database.cards).length}`);
+  console.log(`  - 総画像数: ${totalImages}`);
+  console.log(`  - サイズ: ${(jsonContent.length / 1024).toFixed(1)} KB`);
+  console.log(`  - 出力先: ${outputFile}`);
+}
+
+async function generateDescriptors() {
+  try {
+    let manifest: MasterManifest;
+    try {
+      manifest = JSON.parse(await readFile(MASTER_LIST_FILE, 'utf-8'));
+    } catch {
+      console.error(`エラー: ${MASTER_LIST_FILE} が見つかりません（先に npm run generate-master-list を実行してください）`);
+      process.exit(1);
+    }
+    const incompatibility = findManifestIncompatibility(manifest);
+    if (incompatibility) {
+      console.error(`エラー: ${incompatibility}`);
+      process.exit(1);
+    }
+
+    const { cv } = await waitForOpenCv(cvModule);
+    for (const [deckId, deck] of Object.entries(manifest.decks)) {
+      for (const strategy of Object.values(FEATURE_STRATEGIES)) {
+        await generateStrategyDescriptors(cv, deckId, deck.cards, strategy);
+      }
+    }
+    // OpenCV.jsのランタイムが終了を妨げるため明示的に終了する
+    process.exit(0);
+  } catch (error) {
+    console.error('エラー:', error);
+    process.exit(1);
+  }
+}
+
+generateDescriptors();
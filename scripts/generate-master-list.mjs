@@ -1,9 +1,78 @@
-import { readdir, stat } from 'fs/promises';
+import { createHash } from 'crypto';
+import { readdir, readFile, stat } from 'fs/promises';
 import { join } from 'path';
 import { writeFile } from 'fs/promises';
+import sharp from 'sharp';
 
 const MASTER_DIR = join(process.cwd(), 'public', 'master');
 const OUTPUT_FILE = join(process.cwd(), 'public', 'lib', 'master-list.json');
+const CATALOGUE_FILE = join(process.cwd(), 'src', 'lib', 'card-catalogue.json');
+// マニフェストの形式のバージョン（src/lib/masterData.ts の MASTER_MANIFEST_VERSION と一致させる）
+const MANIFEST_VERSION = 2;
+// マスター画像の短辺の最小ピクセル数（撮影画像は短辺350pxに補正して照合するため、それより極端に小さい画像は使えない）
+const MIN_IMAGE_SIDE = 200;
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp'];
+// デッキ名などを記述する任意の設定ファイル（public/master/<デッキID>/deck.json）
+const DECK_CONFIG_FILE = 'deck.json';
+// デッキIDはURLやファイル名に使うため、英小文字・数字・ハイフンのみ
+const DECK_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+// デッキの自動判別を表す予約済みのID（src/lib/masterData.ts の AUTO_DETECT_DECK）
+const RESERVED_DECK_IDS = ['auto'];
+
+// ディレクトリ内のサブディレクトリ名を列挙
+async function listDirectories(dir) {
+  const directories = [];
+  for (const entry of await readdir(dir)) {
+    if ((await stat(join(dir, entry))).isDirectory()) {
+      directories.push(entry);
+    }
+  }
+  return directories.sort();
+}
+
+// カードフォルダ内の画像ファイル（.jpg, .jpeg, .png, .webp）を列挙
+async function listImageFiles(cardPath) {
+  const imageFiles = [];
+  for (const file of await readdir(cardPath)) {
+    const fileStat = await stat(join(cardPath, file));
+    if (fileStat.isFile()) {
+      const ext = file.toLowerCase();
+      if (IMAGE_EXTENSIONS.some((imageExt) => ext.endsWith(imageExt))) {
+        imageFiles.push(file);
+      } else if (!file.startsWith('.')) {
+        console.warn(`⚠ ${file}: 画像ファイルではないため無視します`);
+      }
+    }
+  }
+  return imageFiles.sort();
+}
+
+// 画像をデコードして、マニフェストに記録するメタデータを取得する
+// デコードできない（壊れている・途中で切れている）場合は例外を投げる
+async function inspectImage(filePath) {
+  const content = await readFile(filePath);
+  // ブラウザと同様にEXIFの向きを反映した大きさを記録する
+  const { info } = await sharp(content).rotate().raw().toBuffer({ resolveWithObject: true });
+  return {
+    width: info.width,
+    height: info.height,
+    bytes: content.length,
+    sha256: createHash('sha256').update(content).digest('hex'),
+  };
+}
+
+// デッキの設定ファイルを読み込む（ない場合はデッキIDを名前として使う）
+async function readDeckConfig(deckPath, deckId) {
+  try {
+    const config = JSON.parse(await readFile(join(deckPath, DECK_CONFIG_FILE), 'utf-8'));
+    return { name: typeof config.name === 'string' && config.name ? config.name : deckId };
+  } catch (error) {
+    if (error.code !== 'ENOENT') {
+      console.warn(`⚠ ${deckId}/${DECK_CONFIG_FILE} を読み込めませんでした (デッキIDを名前として使います)`, error.message);
+    }
+    return { name: deckId };
+  }
+}
 
 async function generateMasterList() {
   try {
@@ -11,48 +80,99 @@ async function generateMasterList() {
     console.log(`スキャン対象: ${MASTER_DIR}`);
 
     // public/master ディレクトリが存在するか確認
-    let entries;
+    let deckIds;
     try {
-      entries = await readdir(MASTER_DIR);
+      deckIds = await listDirectories(MASTER_DIR);
     } catch (error) {
       console.error(`エラー: ${MASTER_DIR} が見つかりません`);
       process.exit(1);
     }
 
-    const masterList = {};
-
-    // 各カードフォルダをスキャン
-    for (const entry of entries) {
-      const cardPath = join(MASTER_DIR, entry);
-      const cardStat = await stat(cardPath);
-
-      // ディレクトリの場合のみ処理
-      if (cardStat.isDirectory()) {
-        const cardName = entry;
-        const imageFiles = [];
-
-        // カードフォルダ内の画像ファイルをスキャン
-        const cardFiles = await readdir(cardPath);
-        for (const file of cardFiles) {
-          const filePath = join(cardPath, file);
-          const fileStat = await stat(filePath);
-
-          // 画像ファイル（.jpg, .jpeg, .png, .webp）のみを対象
-          if (fileStat.isFile()) {
-            const ext = file.toLowerCase();
-            if (ext.endsWith('.jpg') || ext.endsWith('.jpeg') || ext.endsWith('.png') || ext.endsWith('.webp')) {
-              imageFiles.push(file);
-            }
+    // カードカタログ（78枚）を読み込み、フォルダ名がカードIDと一致するか検証する
+    const catalogue = JSON.parse(await readFile(CATALOGUE_FILE, 'utf-8'));
+    const catalogueIds = new Set(catalogue.cards.map((card) => card.id));
+    const errors = [];
+    // 画像の内容のハッシュ → 最初に見つかった画像のパス（重複の検出用）
+    const imagesByHash = new Map();
+
+    // マニフェスト（デッキID → デッキ名とカードごとの画像のメタデータ）
+    const manifest = { version: MANIFEST_VERSION, decks: {} };
+
+    // 各デッキフォルダ（public/master/<デッキID>/<カードID>/）をスキャン
+    for (const deckId of deckIds) {
+      const deckPath = join(MASTER_DIR, deckId);
+      if (catalogueIds.has(deckId)) {
+        errors.push(`${deckId}: カードフォルダはデッキフォルダの中（public/master/<デッキID>/${deckId}/）に配置してください`);
+        continue;
+      }
+      if (!DECK_ID_PATTERN.test(deckId) || RESERVED_DECK_IDS.includes(deckId)) {
+        errors.push(`${deckId}: デッキIDには英小文字・数字・ハイフンのみ使用できます（${RESERVED_DECK_IDS.join(', ')} は予約済み）`);
+        continue;
+      }
+
+      const { name } = await readDeckConfig(deckPath, deckId);
+      console.log(`\n[${name}] (${deckId})`);
+      const cards = {};
+
+      for (const cardName of await listDirectories(deckPath)) {
+        if (!catalogueIds.has(cardName)) {
+          console.error(`✗ ${deckId}/${cardName}: カードカタログにないカードIDです`);
+          errors.push(`${deckId}/${cardName}: カードカタログにないカードIDです（例: FOOL, ACEOFWANDS, KINGOFCUPS）`);
+          continue;
+        }
+
+        const cardPath = join(deckPath, cardName);
+        const images = [];
+        for (const file of await listImageFiles(cardPath)) {
+          const imagePath = `${deckId}/${cardName}/${file}`;
+          let metadata;
+          try {
+            metadata = await inspectImage(join(cardPath, file));
+          } catch (error) {
+            console.error(`✗ ${imagePath}: 画像を読み込めません (${error.message})`);
+            errors.push(`${imagePath}: 画像を読み込めません`);
+            continue;
+          }
+
+          if (Math.min(metadata.width, metadata.height) < MIN_IMAGE_SIDE) {
+            console.error(`✗ ${imagePath}: 画像が小さすぎます (${metadata.width}x${metadata.height})`);
+            errors.push(`${imagePath}: 画像が小さすぎます（短辺 ${MIN_IMAGE_SIDE}px 以上が必要です）`);
+            continue;
           }
+          const duplicateOf = imagesByHash.get(metadata.sha256);
+          if (duplicateOf) {
+            console.error(`✗ ${imagePath}: ${duplicateOf} と同じ画像です`);
+            errors.push(`${imagePath}: ${duplicateOf} と同じ画像です`);
+            continue;
+          }
+          imagesByHash.set(metadata.sha256, imagePath);
+          images.push({ file, ...metadata });
         }
 
-        if (imageFiles.length > 0) {
-          masterList[cardName] = imageFiles.sort();
-          console.log(`✓ ${cardName}: ${imageFiles.length} 枚の画像を検出`);
+        if (images.length > 0) {
+          cards[cardName] = images;
+          console.log(`✓ ${cardName}: ${images.length} 枚の画像を検出`);
         } else {
           console.warn(`⚠ ${cardName}: 画像ファイルが見つかりません`);
         }
       }
+
+      if (Object.keys(cards).length > 0) {
+        manifest.decks[deckId] = { name, cards };
+      } else {
+        console.warn(`⚠ ${deckId}: 画像のあるカードが1枚もないため、デッキに含めません`);
+      }
+    }
+
+    if (errors.length > 0) {
+      console.error(`\nエラー: 問題のあるフォルダ・画像が ${errors.length} 個あります:`);
+      errors.forEach((message) => console.error(`  - ${message}`));
+      console.error('マスターリストは出力していません');
+      process.exit(1);
+    }
+    if (Object.keys(manifest.decks).length === 0) {
+      console.error(`エラー: ${MASTER_DIR} にデッキがありません（public/master/<デッキID>/<カードID>/ に画像を配置してください）`);
+      process.exit(1);
     }
 
     // public/lib ディレクトリが存在しない場合は作成
@@ -66,15 +186,19 @@ async function generateMasterList() {
     }
 
     // JSONファイルに出力
-    const jsonContent = JSON.stringify(masterList, null, 2);
+    const jsonContent = JSON.stringify(manifest, null, 2);
     await writeFile(OUTPUT_FILE, jsonContent, 'utf-8');
 
-    const cardCount = Object.keys(masterList).length;
-    const totalImages = Object.values(masterList).reduce((sum, files) => sum + files.length, 0);
-
+    const totalByArcana = (arcana) => catalogue.cards.filter((card) => card.arcana === arcana).length;
     console.log(`\n✓ マスターリスト生成完了:`);
-    console.log(`  - カード数: ${cardCount}`);
-    console.log(`  - 総画像数: ${totalImages}`);
+    for (const [deckId, deck] of Object.entries(manifest.decks)) {
+      const countByArcana = (arcana) =>
+        catalogue.cards.filter((card) => card.arcana === arcana && deck.cards[card.id]).length;
+      const totalImages = Object.values(deck.cards).reduce((sum, images) => sum + images.length, 0);
+      console.log(`  - ${deck.name} (${deckId}): カード数 ${Object.keys(deck.cards).length}/${catalogue.cards.length}、画像数 ${totalImages}`);
+      console.log(`    (大アルカナ ${countByArcana('major')}/${totalByArcana('major')}, 小アルカナ ${countByArcana('minor')}/${totalByArcana('minor')})`);
+    }
+    console.log(`  - 形式のバージョン: ${MANIFEST_VERSION}`);
     console.log(`  - 出力先: ${OUTPUT_FILE}`);
   } catch (error) {
     console.error('エラー:', error);
@@ -83,4 +207,3 @@ async function generateMasterList() {
 }
 
 generateMasterList();
-
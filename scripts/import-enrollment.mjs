@@ -0,0 +1,100 @@
+import { mkdir, readFile, stat, writeFile } from 'fs/promises';
+import { basename, join, resolve, sep } from 'path';
+
+// アプリの「登録モード」でエクスポートした登録サンプル（JSON）を
+// public/master/<デッキID>/<カードID>/ に画像として書き出し、リポジトリのマスター画像に取り込む
+const MASTER_DIR = join(process.cwd(), 'public', 'master');
+const CATALOGUE_FILE = join(process.cwd(), 'src', 'lib', 'card-catalogue.json');
+// エクスポートファイルの形式のバージョン（src/lib/enrollmentStore.ts の ENROLLMENT_EXPORT_FORMAT と一致させる）
+const ENROLLMENT_EXPORT_FORMAT = 1;
+// デッキIDの形式（scripts/generate-master-list.mjs の DECK_ID_PATTERN・RESERVED_DECK_IDS、src/lib/masterData.ts の isValidDeckId と一致させる）
+const DECK_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const RESERVED_DECK_IDS = ['auto'];
+// 画像のファイル名として安全な文字のみ（フォルダを含まないPNGファイル名）
+const SAFE_FILE_PATTERN = /^[A-Za-z0-9_.-]+\.png$/;
+
+async function exists(path) {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// 登録サンプルのデッキID・カードID・ファイル名が安全に書き出せるものか確認
+function isValidSample(deckId, cardId, file, catalogueIds) {
+  return (
+    typeof deckId === 'string' &&
+    DECK_ID_PATTERN.test(deckId) &&
+    !RESERVED_DECK_IDS.includes(deckId) &&
+    typeof cardId === 'string' &&
+    catalogueIds.has(cardId) &&
+    typeof file === 'string' &&
+    SAFE_FILE_PATTERN.test(file) &&
+    basename(file) === file
+  );
+}
+
+// 書き出し先がマスター画像のフォルダの中にあるか確認
+function isInsideMasterDir(path) {
+  return resolve(path).startsWith(resolve(MASTER_DIR) + sep);
+}
+
+async function importEnrollment() {
+  const inputFile = process.argv[2];
+  if (!inputFile) {
+    console.error('使い方: npm run import-enrollment -- <エクスポートしたJSONファイル>');
+    process.exit(1);
+  }
+
+  try {
+    const exported = JSON.parse(await readFile(inputFile, 'utf-8'));
+    if (exported.format !== ENROLLMENT_EXPORT_FORMAT || !Array.isArray(exported.samples)) {
+      console.error(`エラー: 登録サンプルのファイルではないか、形式（バージョン ${ENROLLMENT_EXPORT_FORMAT}）が異なります`);
+      process.exit(1);
+    }
+
+    const catalogue = JSON.parse(await readFile(CATALOGUE_FILE, 'utf-8'));
+    const catalogueIds = new Set(catalogue.cards.map((card) => card.id));
+
+    let written = 0;
+    for (const sample of exported.samples) {
+      const { deckId, cardId, file, image } = sample;
+      if (!isValidSample(deckId, cardId, file, catalogueIds)) {
+        console.error(`✗ 不正な登録サンプルをスキップします: ${JSON.stringify({ deckId, cardId, file })}`);
+        continue;
+      }
+      const match = /^data:image\/png;base64,(.+)$/.exec(image ?? '');
+      if (!match) {
+        console.error(`✗ ${deckId}/${cardId}/${file}: PNGのデータURLではないためスキップします`);
+        continue;
+      }
+
+      const cardDir = join(MASTER_DIR, deckId, cardId);
+      const outputPath = join(cardDir, file);
+      if (!isInsideMasterDir(outputPath)) {
+        console.error(`✗ ${deckId}/${cardId}/${file}: 書き出し先が ${MASTER_DIR} の外になるためスキップします`);
+        continue;
+      }
+      if (await exists(outputPath)) {
+        console.log(`- ${deckId}/${cardId}/${file}: 既に存在するためスキップします`);
+        continue;
+      }
+      await mkdir(cardDir, { recursive: true });
+      await writeFile(outputPath, Buffer.from(match[1], 'base64'));
+      console.log(`✓ ${deckId}/${cardId}/${file}`);
+      written++;
+    }
+
+    console.log(`\n✓ ${written}/${exported.samples.length} 件の画像を ${MASTER_DIR} に書き出しました`);
+    if (written > 0) {
+      console.log('npm run generate-master-list を実行してマスターリストを更新してください');
+    }
+  } catch (error) {
+    console.error('エラー:', error);
+    process.exit(1);
+  }
+}
+
+importEnrollment();
@@ -0,0 +1,87 @@
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+
+// カードの意味のコンテンツ（src/lib/card-meanings.<言語>.json）を検証する
+// すべての言語でカタログの78枚が揃い、必須の項目が空でないことを確認し、問題があれば終了コード1で終了する
+const LIB_DIR = join(process.cwd(), 'src', 'lib');
+const CATALOGUE_FILE = join(LIB_DIR, 'card-catalogue.json');
+// 対応する言語（src/lib/i18n.ts の LOCALES と一致させる）
+const LOCALES = ['ja', 'en'];
+const ORIENTATIONS = ['upright', 'reversed'];
+
+function isNonEmptyString(value) {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+// 1枚分のコンテンツの問題点を列挙する
+function validateCardMeaning(meaning) {
+  const issues = [];
+  if (!isNonEmptyString(meaning?.description)) {
+    issues.push('description が空です');
+  }
+  for (const orientation of ORIENTATIONS) {
+    const oriented = meaning?.[orientation];
+    if (!Array.isArray(oriented?.keywords) || oriented.keywords.length === 0) {
+      issues.push(`${orientation}.keywords が空です`);
+    } else if (!oriented.keywords.every(isNonEmptyString)) {
+      issues.push(`${orientation}.keywords に空の項目があります`);
+    }
+    if (!isNonEmptyString(oriented?.meaning)) {
+      issues.push(`${orientation}.meaning が空です`);
+    }
+  }
+  return issues;
+}
+
+async function validateCardMeanings() {
+  try {
+    console.log('カードの意味のコンテンツを検証中...');
+    const catalogue = JSON.parse(await readFile(CATALOGUE_FILE, 'utf-8'));
+    const cardIds = catalogue.cards.map((card) => card.id);
+    const errors = [];
+
+    for (const locale of LOCALES) {
+      const file = `card-meanings.${locale}.json`;
+      let content;
+      try {
+        content = JSON.parse(await readFile(join(LIB_DIR, file), 'utf-8'));
+      } catch (error) {
+        errors.push(`${file}: 読み込めません (${error.message})`);
+        continue;
+      }
+      if (content.locale !== locale || typeof content.cards !== 'object' || content.cards === null) {
+        errors.push(`${file}: locale が "${locale}" でないか、cards がありません`);
+        continue;
+      }
+
+      for (const cardId of cardIds) {
+        if (!(cardId in content.cards)) {
+          errors.push(`${file}: ${cardId} がありません`);
+          continue;
+        }
+        for (const issue of validateCardMeaning(content.cards[cardId])) {
+          errors.push(`${file}: ${cardId} の ${issue}`);
+        }
+      }
+      for (const cardId of Object.keys(content.cards)) {
+        if (!cardIds.includes(cardId)) {
+          errors.push(`${file}: ${cardId} はカタログにないカードIDです`);
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      for (const error of errors) {
+        console.error(`✗ ${error}`);
+      }
+      console.error(`\nエラー: カードの意味のコンテンツに ${errors.length} 件の問題があります`);
+      process.exit(1);
+    }
+    console.log(`✓ ${LOCALES.length} 言語 × ${cardIds.length} 枚のコンテンツを確認しました`);
+  } catch (error) {
+    console.error('エラー:', error);
+    process.exit(1);
+  }
+}
+
+validateCardMeanings();
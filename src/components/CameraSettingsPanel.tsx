@@ -0,0 +1,98 @@
+'use client';
+
+import { useI18n } from '@/src/hooks/useI18n';
+import {
+  CAMERA_RESOLUTIONS,
+  CAMERA_RESOLUTION_IDS,
+  isCameraResolutionId,
+  type CameraDevice,
+  type CameraSettings,
+} from '@/src/lib/cameraSettings';
+
+interface CameraSettingsPanelProps {
+  cameraSettings: CameraSettings | null;
+  cameraDevices: CameraDevice[];
+  activeResolution: { width: number; height: number } | null;
+  updateCameraSettings: (settings: Partial<CameraSettings>) => void;
+}
+
+const SELECT_CLASS =
+  'px-3 py-2 bg-gray-700 text-white rounded-lg disabled:bg-gray-500 disabled:cursor-not-allowed';
+
+// カメラ（書画カメラなどの外付けカメラを含む）・向き・解像度の選択
+export function CameraSettingsPanel({
+  cameraSettings,
+  cameraDevices,
+  activeResolution,
+  updateCameraSettings,
+}: CameraSettingsPanelProps) {
+  const { t } = useI18n();
+  const deviceId = cameraSettings?.deviceId ?? null;
+  // 保存したカメラが接続されていない場合も選択中として表示する
+  const isSelectedDeviceMissing = deviceId !== null && !cameraDevices.some((d) => d.deviceId === deviceId);
+  // 使用の許可前はカメラの名前を取得できない
+  const hasUnnamedDevices = cameraDevices.some((d) => !d.label);
+
+  return (
+    <div className="w-full max-w-2xl mb-4 bg-gray-800 rounded-lg p-4 flex flex-col gap-3">
+      <div className="flex flex-wrap gap-3 items-end">
+        <label className="flex flex-col gap-1 text-gray-300 text-sm flex-1 min-w-[12rem]">
+          {t('cameraSettings.device')}
+          <select
+            value={deviceId ?? ''}
+            onChange={(e) => updateCameraSettings({ deviceId: e.target.value || null })}
+            disabled={!cameraSettings}
+            className={SELECT_CLASS}
+          >
+            <option value="">{t('cameraSettings.deviceAuto')}</option>
+            {cameraDevices.map((device, index) => (
+              <option key={device.deviceId || index} value={device.deviceId}>
+                {device.label || t('cameraSettings.deviceUnnamed', { number: index + 1 })}
+              </option>
+            ))}
+            {isSelectedDeviceMissing && <option value={deviceId}>{t('cameraSettings.deviceMissing')}</option>}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-gray-300 text-sm">
+          {t('cameraSettings.facingMode')}
+          <select
+            value={cameraSettings?.facingMode ?? 'environment'}
+            onChange={(e) => updateCameraSettings({ facingMode: e.target.value === 'user' ? 'user' : 'environment' })}
+            // 特定のカメラを選択している場合は向きを使わない
+            disabled={!cameraSettings || deviceId !== null}
+            title={deviceId !== null ? t('cameraSettings.facingModeUnused') : undefined}
+            className={SELECT_CLASS}
+          >
+            <option value="environment">{t('cameraSettings.facingEnvironment')}</option>
+            <option value="user">{t('cameraSettings.facingUser')}</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-gray-300 text-sm">
+          {t('cameraSettings.resolution')}
+          <select
+            value={cameraSettings?.resolution ?? 'auto'}
+            onChange={(e) => {
+              if (isCameraResolutionId(e.target.value)) {
+                updateCameraSettings({ resolution: e.target.value });
+              }
+            }}
+            disabled={!cameraSettings}
+            className={SELECT_CLASS}
+          >
+            {CAMERA_RESOLUTION_IDS.map((id) => (
+              <option key={id} value={id}>
+                {id === 'auto'
+                  ? t('cameraSettings.resolutionAuto')
+                  : t('cameraSettings.resolutionOption', { label: id, ...CAMERA_RESOLUTIONS[id] })}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="text-gray-400 text-xs flex flex-col gap-1">
+        {activeResolution && <p>{t('cameraSettings.activeResolution', activeResolution)}</p>}
+        {hasUnnamedDevices && <p>{t('cameraSettings.unnamedHint')}</p>}
+      </div>
+    </div>
+  );
+}
@@ -1,48 +1,306 @@
 'use client';
 
-import { useTarotReader } from '@/src/hooks/useTarotReader';
+import { useCallback, useEffect, useState } from 'react';
+import { CameraSettingsPanel } from '@/src/components/CameraSettingsPanel';
+import { CardDetailPanel } from '@/src/components/CardDetailPanel';
+import { DiagnosticsPanel } from '@/src/components/DiagnosticsPanel';
+import { EnrollmentPanel } from '@/src/components/EnrollmentPanel';
+import { ReadingHistory } from '@/src/components/ReadingHistory';
+import { SpreadLayout } from '@/src/components/SpreadLayout';
+import { useI18n } from '@/src/hooks/useI18n';
+import { useTarotReader, type LoadError } from '@/src/hooks/useTarotReader';
+import type { CameraErrorKind } from '@/src/lib/cameraSettings';
+import { FEATURE_STRATEGIES, isFeatureStrategyId } from '@/src/lib/featureStrategies';
+import { LOCALES, LOCALE_NAMES, isLocale, type MessageKey, type MessageParams } from '@/src/lib/i18n';
+import { AUTO_DETECT_DECK } from '@/src/lib/masterData';
+import type { Candidate } from '@/src/lib/cardMatching';
+import type { MatchConfidence } from '@/src/lib/matchConfidence';
+import { cardPlacement, type CardOrientation, type CardPlacement } from '@/src/lib/orientation';
+
+const PLACEMENT_LABELS: Record<CardPlacement, MessageKey> = {
+  upright: 'orientation.upright',
+  reversed: 'orientation.reversed',
+  sideways: 'orientation.sideways',
+};
+
+const PLACEMENT_BADGE_STYLES: Record<CardPlacement, string> = {
+  upright: 'bg-amber-600 text-white',
+  reversed: 'bg-purple-700 text-white',
+  sideways: 'bg-sky-700 text-white',
+};
+
+// カードの向き（正位置/逆位置/横向き）の表示
+function OrientationBadge({ orientation }: { orientation: CardOrientation | null }) {
+  const { t } = useI18n();
+  if (!orientation) {
+    return <span className="text-gray-400 text-xs">{t('orientation.unknown')}</span>;
+  }
+
+  const placement = cardPlacement(orientation);
+  return (
+    <span
+      className={`text-xs font-semibold px-2 py-0.5 rounded ${PLACEMENT_BADGE_STYLES[placement]}`}
+      title={t('orientation.angle', { angle: orientation.angle })}
+    >
+      {t(PLACEMENT_LABELS[placement])} {Math.round(orientation.confidence * 100)}%
+    </span>
+  );
+}
+
+// 誤認識の調査用に、候補の照合の詳細を1行にまとめる
+function describeCandidate(candidate: Candidate, t: (key: MessageKey, params?: MessageParams) => string): string {
+  return [
+    `ID: ${candidate.cardId}`,
+    t('candidate.bestImage', { file: candidate.bestImage?.file ?? '-' }),
+    `Good Matches: ${candidate.goodMatches}`,
+    t('candidate.inliers', { inliers: candidate.inliers ?? `- (${candidate.verificationIssue})` }),
+    t('candidate.keypoints', { count: candidate.masterKeypoints }),
+    `${candidate.matchMs}ms`,
+  ].join(' / ');
+}
+
+// 候補のカード名（押すとカードの意味を表示）
+function CandidateName({ candidate, onSelect }: { candidate: Candidate; onSelect: (candidate: Candidate) => void }) {
+  const { t, cardName } = useI18n();
+  return (
+    <button
+      onClick={() => onSelect(candidate)}
+      className="text-white font-medium text-left hover:underline"
+      title={t('meaning.show')}
+    >
+      {cardName(candidate.cardId)}
+    </button>
+  );
+}
+
+// 1位の候補の信頼度の表示
+function ConfidenceLabel({ confidence }: { confidence: MatchConfidence }) {
+  const { t } = useI18n();
+  return (
+    <span
+      className={`text-sm font-semibold ${confidence.isConfident ? 'text-green-400' : 'text-gray-400'}`}
+      title={t('confidence.margin', { margin: Math.round(confidence.margin * 100) })}
+    >
+      {t('confidence.value', { value: Math.round(confidence.value * 100) })}
+    </span>
+  );
+}
+
+// 信頼できる候補がない場合の表示
+function NoConfidentMatch({ confidence }: { confidence: MatchConfidence }) {
+  const { t } = useI18n();
+  return (
+    <div className="flex flex-col items-center gap-1 bg-gray-800 rounded-lg p-4 text-center">
+      <p className="text-white font-medium">{t('result.noMatch')}</p>
+      <p className="text-gray-400 text-sm">
+        {t('result.retake')} (<ConfidenceLabel confidence={confidence} />)
+      </p>
+    </div>
+  );
+}
+
+// 初期化に失敗した段階ごとの見出し
+const LOAD_ERROR_TITLES: Record<LoadError['stage'], MessageKey> = {
+  opencv: 'loadError.opencv',
+  manifest: 'loadError.manifest',
+  master: 'loadError.master',
+};
+
+// カメラを開けなかった・使えなくなった理由ごとの案内
+const CAMERA_ERROR_MESSAGES: Record<CameraErrorKind, MessageKey> = {
+  permissionDenied: 'cameraError.permissionDenied',
+  notFound: 'cameraError.notFound',
+  deviceUnavailable: 'cameraError.deviceUnavailable',
+  inUse: 'cameraError.inUse',
+  disconnected: 'cameraError.disconnected',
+  unsupported: 'cameraError.unsupported',
+  unknown: 'cameraError.unknown',
+};
 
 export function CameraView() {
   const {
     isCvLoaded,
     isMasterReady,
+    loadError,
     isAnalyzing,
     hasSavedImage,
     candidates,
+    matchConfidence,
+    matchTiming,
+    matchedDeckId,
     detectedRectImage,
+    isMultiCardMode,
+    detectedRectImages,
+    spreadDetections,
+    isAutoCaptureEnabled,
+    featureStrategy,
+    deck,
+    decks,
+    enrolledSamples,
+    readings,
+    spreadSession,
+    spreadPlacements,
+    nextSpreadPosition,
+    cameraSettings,
+    cameraDevices,
+    cameraError,
+    activeResolution,
+    getFrameDiagnostics,
+    subscribeFrameDiagnostics,
+    logLevel,
     videoRef,
     canvasRef,
     captureImage,
+    analyzeImageFile,
     deleteImage,
     addToBlacklist,
+    setMultiCardMode,
+    setAutoCaptureEnabled,
+    setFeatureStrategy,
+    setDeck,
+    enrollCard,
+    removeEnrolledSample,
+    importEnrolledSamples,
+    deleteReading,
+    updateReadingNote,
+    startSpreadSession,
+    endSpreadSession,
+    clearSpreadPosition,
+    retryLoad,
+    setLogLevel,
+    updateCameraSettings,
+    retryCamera,
   } = useTarotReader();
+  const { locale, setLocale, t, cardName } = useI18n();
+  const [isEnrollmentMode, setIsEnrollmentMode] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isCameraSettingsOpen, setIsCameraSettingsOpen] = useState(false);
+  const [isDiagnosticsOpen, setIsDiagnosticsOpen] = useState(false);
+  // セッション中は常にスプレッドを表示する
+  const [isSpreadOpen, setIsSpreadOpen] = useState(false);
+  const showSpread = isSpreadOpen || !!spreadSession;
+  // 意味を表示しているカード
+  const [detailCard, setDetailCard] = useState<{ cardId: string; orientation: CardOrientation | null } | null>(null);
+  const showCardDetail = (candidate: Candidate) =>
+    setDetailCard({ cardId: candidate.cardId, orientation: candidate.orientation });
+  // 画像ファイルのドラッグ中か、読み込みに失敗したか
+  const [isDraggingImage, setIsDraggingImage] = useState(false);
+  const [imageInputError, setImageInputError] = useState(false);
+  const canAnalyzeImage = isCvLoaded && isMasterReady && !isAnalyzing;
+
+  // 画像ファイル（選択・ドロップ・貼り付け）を解析
+  const handleImageFile = useCallback(async (file: File | null | undefined) => {
+    if (!file || !canAnalyzeImage) {
+      return;
+    }
+    setImageInputError(!(await analyzeImageFile(file)));
+  }, [canAnalyzeImage, analyzeImageFile]);
+
+  // クリップボードから貼り付けた画像を解析（テキスト入力中の貼り付けは対象外）
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) {
+        return;
+      }
+      const item = Array.from(event.clipboardData?.items ?? []).find((i) => i.type.startsWith('image/'));
+      if (item) {
+        event.preventDefault();
+        handleImageFile(item.getAsFile());
+      }
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [handleImageFile]);
+
+  // 自動判別の場合のみ、候補がどのデッキと判別されたかを表示する
+  const isAutoDetectDeck = deck === AUTO_DETECT_DECK;
+  const deckName = (deckId: string) => decks.find((d) => d.id === deckId)?.name ?? deckId;
 
   return (
     <div className="flex flex-col items-center justify-center min-h-screen bg-gray-900 p-4">
       {/* ステータス表示 */}
-      {!isCvLoaded && (
+      {loadError && (
+        <div className="absolute top-4 left-4 right-4 bg-red-600 text-white px-4 py-2 rounded z-10 flex items-center gap-4">
+          <span className="flex-1 text-sm">
+            {t(LOAD_ERROR_TITLES[loadError.stage])}: {loadError.message}
+          </span>
+          {/* マニフェストの互換性がない場合は再生成が必要なため、再試行は表示しない */}
+          {loadError.stage !== 'manifest' && (
+            <button
+              onClick={retryLoad}
+              className="bg-white text-red-600 font-bold px-3 py-1 rounded hover:bg-gray-100"
+            >
+              {t('loadError.retry')}
+            </button>
+          )}
+        </div>
+      )}
+      {!loadError && !isCvLoaded && (
         <div className="absolute top-4 left-4 bg-yellow-500 text-white px-4 py-2 rounded z-10">
-          OpenCV.jsをロード中...
+          {t('status.loadingOpenCv')}
         </div>
       )}
-      {isCvLoaded && !isMasterReady && (
+      {!loadError && isCvLoaded && !isMasterReady && (
         <div className="absolute top-4 left-4 bg-orange-500 text-white px-4 py-2 rounded z-10">
-          Preparing Database...
+          {t('status.preparingDatabase')}
         </div>
       )}
       {isAnalyzing && (
         <div className="absolute top-4 left-4 bg-blue-500 text-white px-4 py-2 rounded z-10">
-          画像を解析中...
+          {t('status.analyzing')}
         </div>
       )}
 
-      {/* Canvasプレビュー */}
-      <div className="relative w-full max-w-2xl mb-4">
+      {/* Canvasプレビュー（画像ファイルのドロップ先） */}
+      <div
+        className="relative w-full max-w-2xl mb-4"
+        onDragOver={(e) => {
+          if (e.dataTransfer.types.includes('Files')) {
+            e.preventDefault();
+            setIsDraggingImage(true);
+          }
+        }}
+        onDragLeave={() => setIsDraggingImage(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDraggingImage(false);
+          handleImageFile(e.dataTransfer.files[0]);
+        }}
+      >
         <canvas
           ref={canvasRef}
           className="w-full h-auto bg-black rounded-lg"
           style={{ display: 'block' }}
         />
+        {isDraggingImage && (
+          <div className="absolute inset-0 flex items-center justify-center rounded-lg border-4 border-dashed border-blue-400 bg-black bg-opacity-60 text-white font-semibold pointer-events-none">
+            {canAnalyzeImage ? t('imageInput.drop') : t('imageInput.notReady')}
+          </div>
+        )}
+        {/* カメラを開けない場合の案内（画像の読み込みは引き続き使える） */}
+        {cameraError && !hasSavedImage && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 rounded-lg bg-black bg-opacity-80 p-6 text-center">
+            <p className="text-white text-sm">{t(CAMERA_ERROR_MESSAGES[cameraError])}</p>
+            <div className="flex gap-2">
+              {cameraError !== 'unsupported' && (
+                <button
+                  onClick={retryCamera}
+                  className="bg-white text-gray-900 font-bold px-3 py-1 rounded hover:bg-gray-100"
+                >
+                  {t('cameraError.retry')}
+                </button>
+              )}
+              {cameraError !== 'unsupported' && cameraError !== 'permissionDenied' && !isCameraSettingsOpen && (
+                <button
+                  onClick={() => setIsCameraSettingsOpen(true)}
+                  className="bg-gray-700 text-white font-bold px-3 py-1 rounded hover:bg-gray-600"
+                >
+                  {t('cameraSettings.toggle')}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
         <video
           ref={videoRef}
           autoPlay
@@ -52,16 +310,37 @@ export function CameraView() {
         />
         
         {/* 解析用画像の小窓表示 */}
-        {detectedRectImage && (
+        {!isMultiCardMode && detectedRectImage && (
           <div className="absolute top-4 right-4 bg-black bg-opacity-80 rounded-lg p-2 border-2 border-green-500">
-            <div className="text-white text-xs mb-1 font-semibold">解析用画像</div>
+            <div className="text-white text-xs mb-1 font-semibold">{t('preview.title')}</div>
             <img
               src={detectedRectImage}
-              alt="検出されたカード領域"
+              alt={t('preview.detectedCard')}
               className="w-32 h-auto rounded border border-green-400"
             />
           </div>
         )}
+
+        {/* 複数カードモード: 検出されたカードを読み順に小窓表示 */}
+        {isMultiCardMode && detectedRectImages.length > 0 && (
+          <div className="absolute top-4 right-4 bg-black bg-opacity-80 rounded-lg p-2 border-2 border-green-500">
+            <div className="text-white text-xs mb-1 font-semibold">
+              {t('preview.titleMulti', { count: detectedRectImages.length })}
+            </div>
+            <div className="flex gap-1">
+              {detectedRectImages.map((image, index) => (
+                <div key={index} className="flex flex-col items-center">
+                  <img
+                    src={image}
+                    alt={t('preview.detectedCardNumbered', { number: index + 1 })}
+                    className="w-16 h-auto rounded border border-green-400"
+                  />
+                  <span className="text-green-400 text-xs font-semibold">{index + 1}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* 操作ボタン */}
@@ -72,40 +351,318 @@ export function CameraView() {
             disabled={!isCvLoaded || !isMasterReady}
             className="px-6 py-3 bg-blue-600 text-white rounded-lg font-semibold disabled:bg-gray-500 disabled:cursor-not-allowed hover:bg-blue-700 transition-colors"
           >
-            画像を撮影
+            {t('camera.capture')}
           </button>
         ) : (
           <button
             onClick={deleteImage}
             className="px-6 py-3 bg-red-600 text-white rounded-lg font-semibold hover:bg-red-700 transition-colors"
           >
-            削除して戻る
+            {t('camera.delete')}
           </button>
         )}
+        <label
+          className={`px-6 py-3 rounded-lg font-semibold transition-colors ${
+            canAnalyzeImage
+              ? 'bg-gray-700 text-white hover:bg-gray-600 cursor-pointer'
+              : 'bg-gray-500 text-white cursor-not-allowed'
+          }`}
+          title={t('imageInput.hint')}
+        >
+          {t('imageInput.select')}
+          <input
+            type="file"
+            accept="image/*"
+            className="hidden"
+            disabled={!canAnalyzeImage}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              handleImageFile(file);
+            }}
+          />
+        </label>
+        <button
+          onClick={() => setMultiCardMode(!isMultiCardMode)}
+          disabled={hasSavedImage}
+          className={`px-6 py-3 rounded-lg font-semibold transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed ${
+            isMultiCardMode
+              ? 'bg-green-600 text-white hover:bg-green-700'
+              : 'bg-gray-700 text-white hover:bg-gray-600'
+          }`}
+        >
+          {t(isMultiCardMode ? 'camera.multiCardOn' : 'camera.multiCardOff')}
+        </button>
+        <button
+          onClick={() => setAutoCaptureEnabled(!isAutoCaptureEnabled)}
+          disabled={hasSavedImage}
+          className={`px-6 py-3 rounded-lg font-semibold transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed ${
+            isAutoCaptureEnabled
+              ? 'bg-green-600 text-white hover:bg-green-700'
+              : 'bg-gray-700 text-white hover:bg-gray-600'
+          }`}
+        >
+          {t(isAutoCaptureEnabled ? 'camera.autoCaptureOn' : 'camera.autoCaptureOff')}
+        </button>
+        <select
+          value={featureStrategy}
+          onChange={(e) => {
+            if (isFeatureStrategyId(e.target.value)) {
+              setFeatureStrategy(e.target.value);
+            }
+          }}
+          disabled={!isCvLoaded}
+          aria-label={t('camera.featureStrategy')}
+          className="px-4 py-3 bg-gray-700 text-white rounded-lg font-semibold disabled:bg-gray-500 disabled:cursor-not-allowed"
+        >
+          {Object.values(FEATURE_STRATEGIES).map((strategy) => (
+            <option key={strategy.id} value={strategy.id}>
+              {t('camera.featureStrategyOption', { label: strategy.label })}
+            </option>
+          ))}
+        </select>
+        <select
+          value={deck ?? ''}
+          onChange={(e) => setDeck(e.target.value)}
+          disabled={!isCvLoaded || decks.length === 0}
+          aria-label={t('camera.deck')}
+          className="px-4 py-3 bg-gray-700 text-white rounded-lg font-semibold disabled:bg-gray-500 disabled:cursor-not-allowed"
+        >
+          {decks.map((d) => (
+            <option key={d.id} value={d.id}>
+              {t('camera.deckOption', { name: d.name, count: d.cardCount })}
+            </option>
+          ))}
+          {decks.length > 0 && <option value={AUTO_DETECT_DECK}>{t('camera.deckAuto')}</option>}
+        </select>
+        <button
+          onClick={() => setIsCameraSettingsOpen(!isCameraSettingsOpen)}
+          className={`px-6 py-3 rounded-lg font-semibold transition-colors ${
+            isCameraSettingsOpen
+              ? 'bg-green-600 text-white hover:bg-green-700'
+              : 'bg-gray-700 text-white hover:bg-gray-600'
+          }`}
+        >
+          {t(isCameraSettingsOpen ? 'cameraSettings.close' : 'cameraSettings.toggle')}
+        </button>
+        <button
+          onClick={() => setIsEnrollmentMode(!isEnrollmentMode)}
+          className={`px-6 py-3 rounded-lg font-semibold transition-colors ${
+            isEnrollmentMode
+              ? 'bg-green-600 text-white hover:bg-green-700'
+              : 'bg-gray-700 text-white hover:bg-gray-600'
+          }`}
+        >
+          {t(isEnrollmentMode ? 'enrollment.toggleOn' : 'enrollment.toggleOff')}
+        </button>
+        <button
+          onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+          className={`px-6 py-3 rounded-lg font-semibold transition-colors ${
+            isHistoryOpen
+              ? 'bg-green-600 text-white hover:bg-green-700'
+              : 'bg-gray-700 text-white hover:bg-gray-600'
+          }`}
+        >
+          {t(isHistoryOpen ? 'history.close' : 'history.toggle')}
+        </button>
+        <button
+          onClick={() => setIsSpreadOpen(!isSpreadOpen)}
+          disabled={!!spreadSession}
+          className={`px-6 py-3 rounded-lg font-semibold transition-colors disabled:cursor-not-allowed ${
+            showSpread
+              ? 'bg-green-600 text-white hover:bg-green-700'
+              : 'bg-gray-700 text-white hover:bg-gray-600'
+          }`}
+        >
+          {t(spreadSession ? 'spread.inSession' : 'spread.toggle')}
+        </button>
+        <button
+          onClick={() => setIsDiagnosticsOpen(!isDiagnosticsOpen)}
+          className={`px-6 py-3 rounded-lg font-semibold transition-colors ${
+            isDiagnosticsOpen
+              ? 'bg-green-600 text-white hover:bg-green-700'
+              : 'bg-gray-700 text-white hover:bg-gray-600'
+          }`}
+        >
+          {t(isDiagnosticsOpen ? 'diagnostics.close' : 'diagnostics.toggle')}
+        </button>
+        <select
+          value={locale}
+          onChange={(e) => {
+            if (isLocale(e.target.value)) {
+              setLocale(e.target.value);
+            }
+          }}
+          aria-label={t('camera.language')}
+          className="px-4 py-3 bg-gray-700 text-white rounded-lg font-semibold"
+        >
+          {LOCALES.map((l) => (
+            <option key={l} value={l}>
+              {LOCALE_NAMES[l]}
+            </option>
+          ))}
+        </select>
       </div>
 
-      {/* 候補一覧 */}
-      {hasSavedImage && candidates.length > 0 && (
+      {/* カメラ設定 */}
+      {isCameraSettingsOpen && (
+        <CameraSettingsPanel
+          cameraSettings={cameraSettings}
+          cameraDevices={cameraDevices}
+          activeResolution={activeResolution}
+          updateCameraSettings={updateCameraSettings}
+        />
+      )}
+
+      {/* 診断: 検出・マッチングの状態と最近のエラー */}
+      {isDiagnosticsOpen && (
+        <DiagnosticsPanel
+          getFrameDiagnostics={getFrameDiagnostics}
+          subscribeFrameDiagnostics={subscribeFrameDiagnostics}
+          isCameraActive={!hasSavedImage}
+          candidates={candidates}
+          matchTiming={matchTiming}
+          spreadDetections={spreadDetections}
+          logLevel={logLevel}
+          setLogLevel={setLogLevel}
+        />
+      )}
+
+      {/* リーディングセッション: 撮影したカードをスプレッドの位置に順に配置 */}
+      {showSpread && (
+        <SpreadLayout
+          spreadSession={spreadSession}
+          spreadPlacements={spreadPlacements}
+          nextSpreadPosition={nextSpreadPosition}
+          startSpreadSession={startSpreadSession}
+          endSpreadSession={endSpreadSession}
+          clearSpreadPosition={clearSpreadPosition}
+          showCardDetail={(cardId, orientation) => setDetailCard({ cardId, orientation })}
+        />
+      )}
+
+      {imageInputError && (
+        <p className="text-red-400 text-sm mb-4">{t('imageInput.failed')}</p>
+      )}
+
+      {/* リーディングの履歴 */}
+      {isHistoryOpen && (
+        <ReadingHistory
+          readings={readings}
+          decks={decks}
+          deleteReading={deleteReading}
+          updateReadingNote={updateReadingNote}
+        />
+      )}
+
+      {/* 登録モード: 検出中のカードをマスター画像として登録 */}
+      {isEnrollmentMode && !hasSavedImage && (
+        <EnrollmentPanel
+          detectedRectImage={isMultiCardMode ? null : detectedRectImage}
+          deck={deck}
+          decks={decks}
+          enrolledSamples={enrolledSamples}
+          enrollCard={enrollCard}
+          removeEnrolledSample={removeEnrolledSample}
+          importEnrolledSamples={importEnrolledSamples}
+        />
+      )}
+
+      {/* 複数カードの解析結果（読み順） */}
+      {hasSavedImage && spreadDetections.length > 0 && (
         <div className="w-full max-w-2xl">
           <h2 className="text-white text-lg font-semibold mb-4 text-center">
-            解析結果（上位3件）
+            {t('result.titleMulti', { count: spreadDetections.length })}
+          </h2>
+          <div className="flex flex-col gap-4">
+            {spreadDetections.map((detection) => (
+              <div key={detection.position} className="flex gap-3 bg-gray-800 rounded-lg p-3">
+                <div className="flex flex-col items-center shrink-0">
+                  <span className="text-green-400 text-sm font-semibold mb-1">#{detection.position}</span>
+                  {isAutoDetectDeck && (
+                    <span className="text-gray-400 text-xs mb-1">{deckName(detection.deckId)}</span>
+                  )}
+                  <img
+                    src={detection.image}
+                    alt={t('result.cardNumbered', { number: detection.position })}
+                    className="w-16 h-auto rounded border border-gray-600"
+                  />
+                </div>
+                <div className="flex flex-col gap-2 flex-1">
+                  {detection.candidates.length === 0 && (
+                    <p className="text-white text-sm">{t('result.allExcluded')}</p>
+                  )}
+                  {detection.confidence && !detection.confidence.isConfident && (
+                    <NoConfidentMatch confidence={detection.confidence} />
+                  )}
+                  {detection.confidence?.isConfident && (
+                    <ConfidenceLabel confidence={detection.confidence} />
+                  )}
+                  {detection.confidence?.isConfident && detection.candidates.slice(0, 3).map((candidate) => (
+                    <div
+                      key={candidate.cardId}
+                      className="flex items-center justify-between bg-gray-700 rounded p-2"
+                    >
+                      <div className="flex items-center gap-3">
+                        <CandidateName candidate={candidate} onSelect={showCardDetail} />
+                        <span className="text-blue-400 text-sm font-semibold" title={describeCandidate(candidate, t)}>
+                          {t('candidate.score', { score: candidate.score })}
+                        </span>
+                        <OrientationBadge orientation={candidate.orientation} />
+                      </div>
+                      <button
+                        onClick={() => addToBlacklist(candidate.cardId)}
+                        className="ml-4 w-7 h-7 flex items-center justify-center bg-red-600 text-white rounded-full hover:bg-red-700 transition-colors"
+                        aria-label={t('candidate.exclude', { card: cardName(candidate.cardId) })}
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* 信頼できる候補がない場合 */}
+      {hasSavedImage && spreadDetections.length === 0 && matchConfidence && !matchConfidence.isConfident && (
+        <div className="w-full max-w-2xl">
+          <NoConfidentMatch confidence={matchConfidence} />
+        </div>
+      )}
+
+      {/* 候補一覧 */}
+      {hasSavedImage && spreadDetections.length === 0 && matchConfidence?.isConfident && (
+        <div className="w-full max-w-2xl">
+          <h2 className="text-white text-lg font-semibold mb-1 text-center">
+            {t('result.titleTop')}
           </h2>
+          <div className="text-center mb-4">
+            <ConfidenceLabel confidence={matchConfidence} />
+            {matchTiming && <span className="text-gray-400 text-xs ml-2">({matchTiming.totalMs}ms)</span>}
+            {isAutoDetectDeck && matchedDeckId && (
+              <span className="text-gray-400 text-xs ml-2">{t('result.deck', { deck: deckName(matchedDeckId) })}</span>
+            )}
+          </div>
           <div className="flex flex-col gap-2">
-            {candidates.slice(0, 3).map((candidate, index) => (
+            {candidates.slice(0, 3).map((candidate) => (
               <div
-                key={`${candidate.cardName}-${index}`}
+                key={candidate.cardId}
                 className="flex items-center justify-between bg-gray-800 rounded-lg p-4 hover:bg-gray-700 transition-colors"
               >
                 <div className="flex items-center gap-3">
-                  <span className="text-white font-medium">{candidate.cardName}</span>
-                  <span className="text-blue-400 text-sm font-semibold">
-                    {candidate.matchCount} matches
+                  <CandidateName candidate={candidate} onSelect={showCardDetail} />
+                  <span className="text-blue-400 text-sm font-semibold" title={describeCandidate(candidate, t)}>
+                    {t('candidate.score', { score: candidate.score })}
                   </span>
+                  <OrientationBadge orientation={candidate.orientation} />
                 </div>
                 <button
-                  onClick={() => addToBlacklist(candidate.cardName)}
+                  onClick={() => addToBlacklist(candidate.cardId)}
                   className="ml-4 w-8 h-8 flex items-center justify-center bg-red-600 text-white rounded-full hover:bg-red-700 transition-colors"
-                  aria-label={`${candidate.cardName}を除外`}
+                  aria-label={t('candidate.exclude', { card: cardName(candidate.cardId) })}
                 >
                   ×
                 </button>
@@ -115,11 +672,20 @@ export function CameraView() {
         </div>
       )}
 
-      {hasSavedImage && candidates.length === 0 && (
+      {hasSavedImage && spreadDetections.length === 0 && candidates.length === 0 && (
         <div className="text-white text-center">
-          <p>すべての候補が除外されました。</p>
+          <p>{t('result.allExcluded')}</p>
         </div>
       )}
+
+      {/* カードの意味 */}
+      {detailCard && (
+        <CardDetailPanel
+          cardId={detailCard.cardId}
+          orientation={detailCard.orientation}
+          onClose={() => setDetailCard(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,82 @@
+'use client';
+
+import { useI18n } from '@/src/hooks/useI18n';
+import { getCardMeaning, type OrientedMeaning } from '@/src/lib/cardMeanings';
+import type { CardOrientation } from '@/src/lib/orientation';
+
+interface CardDetailPanelProps {
+  cardId: string;
+  orientation: CardOrientation | null;
+  onClose: () => void;
+}
+
+// 正位置または逆位置の意味（判定された向きの方を強調する）
+function OrientedMeaningSection({
+  title,
+  meaning,
+  isActive,
+}: {
+  title: string;
+  meaning: OrientedMeaning;
+  isActive: boolean;
+}) {
+  const { t } = useI18n();
+  return (
+    <section className={`rounded-lg p-3 ${isActive ? 'bg-gray-700 border border-green-500' : 'bg-gray-800'}`}>
+      <h3 className={`font-semibold mb-1 ${isActive ? 'text-green-400' : 'text-gray-300'}`}>{title}</h3>
+      <p className="text-white text-sm mb-2">{meaning.meaning}</p>
+      <p className="text-gray-400 text-xs">
+        {t('meaning.keywords', { keywords: meaning.keywords.join(' / ') })}
+      </p>
+    </section>
+  );
+}
+
+// カードの意味の詳細（候補一覧やスプレッドの位置から開く、表示中の言語のコンテンツを使う）
+export function CardDetailPanel({ cardId, orientation, onClose }: CardDetailPanelProps) {
+  const { locale, t, cardName } = useI18n();
+  const meaning = getCardMeaning(cardId, locale);
+
+  return (
+    <div
+      className="fixed inset-0 z-20 bg-black bg-opacity-70 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-label={cardName(cardId)}
+        className="w-full max-w-lg max-h-full overflow-y-auto bg-gray-900 border border-gray-600 rounded-lg p-4 flex flex-col gap-3"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="text-white text-lg font-semibold">{cardName(cardId)}</h2>
+          <button
+            onClick={onClose}
+            className="w-7 h-7 flex items-center justify-center bg-gray-700 text-white rounded-full hover:bg-gray-600"
+            aria-label={t('common.close')}
+          >
+            ×
+          </button>
+        </div>
+
+        {meaning ? (
+          <>
+            <p className="text-gray-300 text-sm">{meaning.description}</p>
+            <OrientedMeaningSection
+              title={t('orientation.upright')}
+              meaning={meaning.upright}
+              isActive={orientation !== null && !orientation.isReversed && !orientation.isSideways}
+            />
+            <OrientedMeaningSection
+              title={t('orientation.reversed')}
+              meaning={meaning.reversed}
+              isActive={!!orientation?.isReversed}
+            />
+          </>
+        ) : (
+          <p className="text-gray-400 text-sm">{t('meaning.missing')}</p>
+        )}
+      </div>
+    </div>
+  );
+}
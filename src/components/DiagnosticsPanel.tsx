@@ -0,0 +1,181 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { useI18n } from '@/src/hooks/useI18n';
+import type { QuadStatus } from '@/src/lib/cardDetection';
+import type { Candidate, MatchTiming } from '@/src/lib/cardMatching';
+import type { MessageKey } from '@/src/lib/i18n';
+import {
+  LOG_THRESHOLDS,
+  clearLogEntries,
+  getRecentLogEntries,
+  isLogThreshold,
+  subscribeLogEntries,
+  type LogEntry,
+  type LogThreshold,
+} from '@/src/lib/logger';
+import type { FrameDiagnostics } from '@/src/workers/cvWorkerMessages';
+
+interface DiagnosticsPanelProps {
+  getFrameDiagnostics: () => FrameDiagnostics | null;
+  subscribeFrameDiagnostics: (listener: () => void) => () => void;
+  isCameraActive: boolean; // 撮影後はカメラの検出結果を表示しない
+  candidates: Candidate[];
+  matchTiming: MatchTiming | null;
+  spreadDetections: Array<{ position: number; candidates: Candidate[] }>;
+  logLevel: LogThreshold;
+  setLogLevel: (logLevel: LogThreshold) => void;
+}
+
+// 候補ごとに表示する上位の件数
+const TOP_CANDIDATES = 3;
+
+const QUAD_STATUS_LABELS: Record<QuadStatus, MessageKey> = {
+  found: 'diagnostics.quadFound',
+  noContours: 'diagnostics.quadNoContours',
+  tooSmall: 'diagnostics.quadTooSmall',
+  notQuad: 'diagnostics.quadNotQuad',
+};
+
+// サーバーでの描画時の直近のログ（記録はブラウザでのみ行う）
+const NO_LOG_ENTRIES: LogEntry[] = [];
+
+// 上位の候補のスコアを1行ずつ表示
+function CandidateScores({ candidates }: { candidates: Candidate[] }) {
+  const { t, cardName } = useI18n();
+  if (candidates.length === 0) {
+    return <p className="text-gray-500">{t('diagnostics.noCandidates')}</p>;
+  }
+  return (
+    <ol className="flex flex-col gap-0.5">
+      {candidates.slice(0, TOP_CANDIDATES).map((candidate, index) => (
+        <li key={candidate.cardId} className="text-gray-300">
+          {index + 1}. {cardName(candidate.cardId)}: {candidate.score.toFixed(2)}% (
+          {t('diagnostics.candidateDetail', {
+            goodMatches: candidate.goodMatches,
+            inliers: candidate.inliers ?? '-',
+          })}
+          )
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+// スマートフォンでもコンソールを開かずに検出・マッチングの状態とエラーを確認するためのパネル
+export function DiagnosticsPanel({
+  getFrameDiagnostics,
+  subscribeFrameDiagnostics,
+  isCameraActive,
+  candidates,
+  matchTiming,
+  spreadDetections,
+  logLevel,
+  setLogLevel,
+}: DiagnosticsPanelProps) {
+  const { locale, t } = useI18n();
+  const logEntries = useSyncExternalStore(subscribeLogEntries, getRecentLogEntries, () => NO_LOG_ENTRIES);
+  const latestFrameDiagnostics = useSyncExternalStore(subscribeFrameDiagnostics, getFrameDiagnostics, () => null);
+  const frameDiagnostics = isCameraActive ? latestFrameDiagnostics : null;
+
+  return (
+    <div className="w-full max-w-2xl mb-4 bg-gray-800 rounded-lg p-4 flex flex-col gap-4 text-xs font-mono">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-white text-base font-semibold font-sans">{t('diagnostics.title')}</h2>
+        <label className="flex items-center gap-2 text-gray-300 font-sans text-sm">
+          {t('diagnostics.logLevel')}
+          <select
+            value={logLevel}
+            onChange={(e) => {
+              if (isLogThreshold(e.target.value)) {
+                setLogLevel(e.target.value);
+              }
+            }}
+            className="px-2 py-1 bg-gray-700 text-white rounded"
+          >
+            {LOG_THRESHOLDS.map((level) => (
+              <option key={level} value={level}>
+                {level}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <section>
+        <h3 className="text-gray-400 font-sans font-semibold mb-1">{t('diagnostics.detection')}</h3>
+        {frameDiagnostics ? (
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-0.5 text-gray-300">
+            <dt>{t('diagnostics.contours')}</dt>
+            <dd>{frameDiagnostics.totalContours}</dd>
+            <dt>{t('diagnostics.maxArea')}</dt>
+            <dd>{Math.round(frameDiagnostics.maxArea)}</dd>
+            <dt>{t('diagnostics.minArea')}</dt>
+            <dd>{Math.round(frameDiagnostics.minArea)}</dd>
+            <dt>{t('diagnostics.quad')}</dt>
+            <dd className={frameDiagnostics.quadStatus === 'found' ? 'text-green-400' : 'text-yellow-400'}>
+              {t(QUAD_STATUS_LABELS[frameDiagnostics.quadStatus])}
+            </dd>
+            <dt>{t('diagnostics.detectTime')}</dt>
+            <dd>{frameDiagnostics.detectMs}ms</dd>
+          </dl>
+        ) : (
+          <p className="text-gray-500">{t('diagnostics.noFrames')}</p>
+        )}
+      </section>
+
+      <section>
+        <h3 className="text-gray-400 font-sans font-semibold mb-1">{t('diagnostics.matching')}</h3>
+        {spreadDetections.length > 0 ? (
+          <div className="flex flex-col gap-2">
+            {spreadDetections.map((detection) => (
+              <div key={detection.position}>
+                <p className="text-white">#{detection.position}</p>
+                <CandidateScores candidates={detection.candidates} />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <>
+            <CandidateScores candidates={candidates} />
+            {matchTiming && (
+              <p className="text-gray-400 mt-1">
+                {t('diagnostics.matchTime', {
+                  total: matchTiming.totalMs,
+                  prefilter: matchTiming.prefilterMs,
+                  features: matchTiming.featuresMs,
+                  matching: matchTiming.matchingMs,
+                })}
+              </p>
+            )}
+          </>
+        )}
+      </section>
+
+      <section>
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-gray-400 font-sans font-semibold">{t('diagnostics.recentLogs')}</h3>
+          {logEntries.length > 0 && (
+            <button
+              onClick={clearLogEntries}
+              className="px-2 py-0.5 bg-gray-700 text-white rounded font-sans hover:bg-gray-600"
+            >
+              {t('diagnostics.clearLogs')}
+            </button>
+          )}
+        </div>
+        {logEntries.length > 0 ? (
+          <ul className="flex flex-col gap-1 max-h-48 overflow-y-auto">
+            {[...logEntries].reverse().map((entry) => (
+              <li key={entry.id} className={entry.level === 'error' ? 'text-red-400' : 'text-yellow-400'}>
+                {new Date(entry.time).toLocaleTimeString(locale)} [{entry.namespace}] {entry.message}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-500">{t('diagnostics.noLogs')}</p>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useI18n } from '@/src/hooks/useI18n';
+import { CARD_CATALOGUE, type Suit } from '@/src/lib/cardCatalogue';
+import {
+  exportEnrolledSamples,
+  parseEnrollmentExport,
+  type EnrolledSample,
+} from '@/src/lib/enrollmentStore';
+import { createLogger } from '@/src/lib/logger';
+import { AUTO_DETECT_DECK, type DeckInfo } from '@/src/lib/masterData';
+
+const log = createLogger('enrollment');
+
+interface EnrollmentPanelProps {
+  detectedRectImage: string | null;
+  deck: string | null;
+  decks: DeckInfo[];
+  enrolledSamples: EnrolledSample[];
+  enrollCard: (cardId: string) => Promise<boolean>;
+  removeEnrolledSample: (id: string) => Promise<void>;
+  importEnrolledSamples: (samples: EnrolledSample[]) => Promise<number>;
+}
+
+const SUITS: Suit[] = ['wands', 'cups', 'swords', 'pentacles'];
+
+// カード選択の選択肢（大アルカナとスートごとにまとめる）
+const CARD_GROUPS = [
+  { labelKey: 'arcana.major' as const, cards: CARD_CATALOGUE.filter((card) => card.arcana === 'major') },
+  ...SUITS.map((suit) => ({
+    labelKey: `suit.${suit}` as const,
+    cards: CARD_CATALOGUE.filter((card) => card.suit === suit),
+  })),
+];
+
+// 登録サンプルの縮小表示（BlobのURLは表示しなくなったら解放する）
+function SampleThumbnail({ sample }: { sample: EnrolledSample }) {
+  const imgRef = useRef<HTMLImageElement>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(sample.image);
+    if (imgRef.current) {
+      imgRef.current.src = objectUrl;
+    }
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [sample.image]);
+
+  return <img ref={imgRef} alt={sample.cardId} className="w-10 h-auto rounded border border-gray-600" />;
+}
+
+// JSONをファイルとしてダウンロード
+function downloadJson(data: unknown, fileName: string) {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(data)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// 検出中のカードをマスター画像として登録するパネル（登録サンプルの一覧・エクスポート・インポート）
+export function EnrollmentPanel({
+  detectedRectImage,
+  deck,
+  decks,
+  enrolledSamples,
+  enrollCard,
+  removeEnrolledSample,
+  importEnrolledSamples,
+}: EnrollmentPanelProps) {
+  const { locale, t, cardName } = useI18n();
+  const [cardId, setCardId] = useState(CARD_CATALOGUE[0].id);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const canEnroll = !!detectedRectImage && !!deck && deck !== AUTO_DETECT_DECK && !isBusy;
+  const deckName = (deckId: string) => decks.find((d) => d.id === deckId)?.name ?? deckId;
+
+  const handleEnroll = async () => {
+    setIsBusy(true);
+    const ok = await enrollCard(cardId);
+    setMessage(ok ? t('enrollment.enrolled', { card: cardName(cardId) }) : t('enrollment.enrollFailed'));
+    setIsBusy(false);
+  };
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    try {
+      const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+      downloadJson(await exportEnrolledSamples(enrolledSamples), `enrolled-samples-${date}.json`);
+    } catch (error) {
+      log.error('エクスポートに失敗しました:', error);
+      setMessage(t('enrollment.exportFailed'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setIsBusy(true);
+    try {
+      const samples = await parseEnrollmentExport(JSON.parse(await file.text()));
+      const count = await importEnrolledSamples(samples);
+      setMessage(t('enrollment.imported', { count }));
+    } catch (error) {
+      log.error('インポートに失敗しました:', error);
+      setMessage(t('enrollment.importFailed', { error: error instanceof Error ? error.message : String(error) }));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-2xl bg-gray-800 rounded-lg p-4 mb-6">
+      <h2 className="text-white text-lg font-semibold mb-3">{t('enrollment.title')}</h2>
+
+      {deck === AUTO_DETECT_DECK ? (
+        <p className="text-yellow-400 text-sm mb-3">{t('enrollment.autoDeck')}</p>
+      ) : (
+        <p className="text-gray-400 text-sm mb-3">
+          {t('enrollment.description', { deck: deck ? deckName(deck) : t('enrollment.deckLoading') })}
+        </p>
+      )}
+
+      <div className="flex gap-2 mb-3">
+        <select
+          value={cardId}
+          onChange={(e) => setCardId(e.target.value)}
+          aria-label={t('enrollment.card')}
+          className="flex-1 px-3 py-2 bg-gray-700 text-white rounded-lg"
+        >
+          {CARD_GROUPS.map((group) => (
+            <optgroup key={group.labelKey} label={t(group.labelKey)}>
+              {group.cards.map((card) => (
+                <option key={card.id} value={card.id}>
+                  {cardName(card.id)}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        <button
+          onClick={handleEnroll}
+          disabled={!canEnroll}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold disabled:bg-gray-500 disabled:cursor-not-allowed hover:bg-blue-700 transition-colors"
+        >
+          {t('enrollment.enroll')}
+        </button>
+      </div>
+      {!detectedRectImage && <p className="text-gray-400 text-xs mb-3">{t('enrollment.noCard')}</p>}
+      {message && <p className="text-green-400 text-sm mb-3">{message}</p>}
+
+      {/* 登録済みのサンプル */}
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-white text-sm font-semibold">{t('enrollment.samples', { count: enrolledSamples.length })}</span>
+        <div className="flex gap-2">
+          <button
+            onClick={handleExport}
+            disabled={enrolledSamples.length === 0 || isBusy}
+            className="px-3 py-1 bg-gray-700 text-white text-sm rounded disabled:text-gray-500 disabled:cursor-not-allowed hover:bg-gray-600"
+          >
+            {t('enrollment.export')}
+          </button>
+          <label className="px-3 py-1 bg-gray-700 text-white text-sm rounded cursor-pointer hover:bg-gray-600">
+            {t('enrollment.import')}
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              disabled={isBusy}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) {
+                  handleImport(file);
+                }
+              }}
+            />
+          </label>
+        </div>
+      </div>
+      <div className="flex flex-col gap-2">
+        {enrolledSamples.map((sample) => (
+          <div key={sample.id} className="flex items-center gap-3 bg-gray-700 rounded p-2">
+            <SampleThumbnail sample={sample} />
+            <div className="flex-1">
+              <div className="text-white text-sm font-medium">{cardName(sample.cardId)}</div>
+              <div className="text-gray-400 text-xs">
+                {deckName(sample.deckId)} · {new Date(sample.createdAt).toLocaleString(locale)}
+              </div>
+            </div>
+            <button
+              onClick={() => removeEnrolledSample(sample.id)}
+              className="w-7 h-7 flex items-center justify-center bg-red-600 text-white rounded-full hover:bg-red-700 transition-colors"
+              aria-label={t('enrollment.deleteSample', { card: cardName(sample.cardId) })}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+'use client';
+
+import { useCallback, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { I18nContext, type I18n } from '@/src/hooks/useI18n';
+import { getCardDisplayName } from '@/src/lib/cardCatalogue';
+import { LOCALE_COOKIE, translate, type Locale } from '@/src/lib/i18n';
+
+// 言語の保存期間（1年）
+const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+// 表示する言語を配下のコンポーネントに提供する（初期値はサーバーでクッキーから決めたもの）
+export function LocaleProvider({ initialLocale, children }: { initialLocale: Locale; children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState(initialLocale);
+  const router = useRouter();
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; samesite=lax`;
+    document.documentElement.lang = next;
+    // タイトルなどのメタデータをサーバーで新しい言語で作り直す
+    router.refresh();
+  }, [router]);
+
+  const i18n = useMemo<I18n>(() => ({
+    locale,
+    setLocale,
+    t: (key, params) => translate(locale, key, params),
+    cardName: (cardId) => getCardDisplayName(cardId, locale),
+  }), [locale, setLocale]);
+
+  return <I18nContext.Provider value={i18n}>{children}</I18nContext.Provider>;
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import { useState } from 'react';
+import { useI18n } from '@/src/hooks/useI18n';
+import { localize, type MessageKey } from '@/src/lib/i18n';
+import { searchReadings, type ReadingCard, type ReadingRecord } from '@/src/lib/readingHistory';
+import type { DeckInfo } from '@/src/lib/masterData';
+import { cardPlacement, type CardPlacement } from '@/src/lib/orientation';
+
+interface ReadingHistoryProps {
+  readings: ReadingRecord[];
+  decks: DeckInfo[];
+  deleteReading: (id: string) => Promise<void>;
+  updateReadingNote: (id: string, note: string) => Promise<void>;
+}
+
+const PLACEMENT_SUFFIXES: Record<CardPlacement, MessageKey> = {
+  upright: 'orientation.uprightSuffix',
+  reversed: 'orientation.reversedSuffix',
+  sideways: 'orientation.sidewaysSuffix',
+};
+
+const PLACEMENT_COLORS: Record<CardPlacement, string> = {
+  upright: 'text-green-400',
+  reversed: 'text-orange-400',
+  sideways: 'text-sky-400',
+};
+
+// 選ばれたカード（正位置/逆位置/横向き付き）の表示
+function ChosenCardLabel({ card }: { card: ReadingCard }) {
+  const { t, cardName } = useI18n();
+  if (!card.chosen) {
+    return <span className="text-gray-400">{t('history.noCard')}</span>;
+  }
+  const { cardId, orientation } = card.chosen;
+  return (
+    <span className="text-white">
+      {cardName(cardId)}
+      {orientation && (
+        <span className={PLACEMENT_COLORS[cardPlacement(orientation)]}>
+          {t(PLACEMENT_SUFFIXES[cardPlacement(orientation)])}
+        </span>
+      )}
+    </span>
+  );
+}
+
+// 1件のリーディング（詳細を開くと各カードの上位候補とスコアを表示）
+function ReadingItem({
+  reading,
+  deckName,
+  deleteReading,
+  updateReadingNote,
+}: {
+  reading: ReadingRecord;
+  deckName: (deckId: string) => string;
+  deleteReading: (id: string) => Promise<void>;
+  updateReadingNote: (id: string, note: string) => Promise<void>;
+}) {
+  const { locale, t, cardName } = useI18n();
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-3">
+      <div className="flex gap-3">
+        <img
+          src={reading.image}
+          alt={t('history.capturedImage')}
+          className="w-16 h-auto rounded border border-gray-600 self-start"
+        />
+        <div className="flex-1 flex flex-col gap-1">
+          <div className="flex items-center justify-between">
+            <span className="text-gray-300 text-sm">
+              {new Date(reading.createdAt).toLocaleString(locale)}
+              <span className="text-gray-500 ml-2">{t('history.cardCount', { count: reading.cards.length })}</span>
+              {reading.spread && <span className="text-yellow-400 ml-2">{localize(reading.spread.name, locale)}</span>}
+            </span>
+            <button
+              onClick={() => {
+                if (confirm(t('history.confirmDelete'))) {
+                  deleteReading(reading.id);
+                }
+              }}
+              className="w-7 h-7 flex items-center justify-center bg-red-600 text-white rounded-full hover:bg-red-700 transition-colors"
+              aria-label={t('history.delete')}
+            >
+              ×
+            </button>
+          </div>
+          {reading.cards.map((card) => (
+            <div key={card.position} className="text-sm">
+              {reading.mode === 'spread' && <span className="text-green-400 mr-2">#{card.position}</span>}
+              {card.spreadPosition && (
+                <span className="text-yellow-400 mr-2">{localize(card.spreadPosition, locale)}</span>
+              )}
+              <ChosenCardLabel card={card} />
+            </div>
+          ))}
+          <input
+            type="text"
+            defaultValue={reading.note}
+            placeholder={t('history.notePlaceholder')}
+            onBlur={(e) => updateReadingNote(reading.id, e.target.value)}
+            className="mt-1 px-2 py-1 bg-gray-700 text-white text-sm rounded"
+          />
+          <button
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="text-blue-400 text-xs text-left hover:underline"
+          >
+            {t(isExpanded ? 'history.hideCandidates' : 'history.showCandidates')}
+          </button>
+        </div>
+      </div>
+
+      {isExpanded && (
+        <div className="mt-2 flex flex-col gap-2">
+          {reading.cards.map((card) => (
+            <div key={card.position} className="bg-gray-700 rounded p-2 text-xs">
+              <div className="text-gray-400 mb-1">
+                {reading.mode === 'spread' && `#${card.position} · `}
+                {t('history.cardDetail', { deck: deckName(card.deckId), ms: card.timing.totalMs })}
+              </div>
+              {card.candidates.slice(0, 3).map((candidate) => (
+                <div
+                  key={candidate.cardId}
+                  className={`flex justify-between ${reading.blacklist.includes(candidate.cardId) ? 'text-gray-500 line-through' : 'text-white'}`}
+                >
+                  <span>{cardName(candidate.cardId)}</span>
+                  <span className="text-blue-400">{t('candidate.score', { score: candidate.score })}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// リーディングの履歴（検索・削除）
+export function ReadingHistory({ readings, decks, deleteReading, updateReadingNote }: ReadingHistoryProps) {
+  const { t } = useI18n();
+  const [query, setQuery] = useState('');
+  const results = searchReadings(readings, query);
+  const deckName = (deckId: string) => decks.find((d) => d.id === deckId)?.name ?? deckId;
+
+  return (
+    <div className="w-full max-w-2xl mb-6">
+      <h2 className="text-white text-lg font-semibold mb-3 text-center">{t('history.title', { count: readings.length })}</h2>
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder={t('history.searchPlaceholder')}
+        className="w-full px-3 py-2 mb-3 bg-gray-700 text-white rounded-lg"
+      />
+      {results.length === 0 && (
+        <p className="text-gray-400 text-center text-sm">
+          {t(readings.length === 0 ? 'history.empty' : 'history.noResults')}
+        </p>
+      )}
+      <div className="flex flex-col gap-3">
+        {results.map((reading) => (
+          <ReadingItem
+            key={reading.id}
+            reading={reading}
+            deckName={deckName}
+            deleteReading={deleteReading}
+            updateReadingNote={updateReadingNote}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+'use client';
+
+import { useState } from 'react';
+import { useI18n } from '@/src/hooks/useI18n';
+import { localize, type MessageKey } from '@/src/lib/i18n';
+import { cardPlacement, type CardOrientation, type CardPlacement } from '@/src/lib/orientation';
+import {
+  BUILT_IN_SPREADS,
+  SPREAD_CARD_HEIGHT,
+  createCustomSpread,
+  type SpreadDefinition,
+  type SpreadPlacement,
+  type SpreadSession,
+} from '@/src/lib/spreads';
+
+interface SpreadLayoutProps {
+  spreadSession: SpreadSession | null;
+  spreadPlacements: Array<SpreadPlacement | null>;
+  nextSpreadPosition: number | null;
+  startSpreadSession: (spread: SpreadDefinition) => void;
+  endSpreadSession: () => void;
+  clearSpreadPosition: (index: number) => void;
+  showCardDetail: (cardId: string, orientation: CardOrientation | null) => void;
+}
+
+// レイアウト上のカードの幅（px）
+const CARD_WIDTH_PX = 64;
+const CUSTOM_SPREAD_ID = 'custom';
+
+const PLACEMENT_SUFFIXES: Record<CardPlacement, MessageKey> = {
+  upright: 'orientation.uprightSuffix',
+  reversed: 'orientation.reversedSuffix',
+  sideways: 'orientation.sidewaysSuffix',
+};
+
+const PLACEMENT_COLORS: Record<CardPlacement, string> = {
+  upright: 'text-green-400',
+  reversed: 'text-orange-400',
+  sideways: 'text-sky-400',
+};
+
+// スプレッドの位置の枠（横向きの位置は回転して表示）
+function SpreadSlot({
+  index,
+  label,
+  rotated,
+  placement,
+  isNext,
+  clearSpreadPosition,
+}: {
+  index: number;
+  label: string;
+  rotated: boolean;
+  placement: SpreadPlacement | null;
+  isNext: boolean;
+  clearSpreadPosition: (index: number) => void;
+}) {
+  const { t, cardName } = useI18n();
+  const choice = placement?.choice;
+  return (
+    <div
+      className={`absolute inset-0 rounded border-2 bg-gray-800 overflow-hidden flex flex-col items-center justify-center ${
+        isNext ? 'border-yellow-400' : choice ? 'border-green-500' : 'border-dashed border-gray-500'
+      } ${rotated ? 'rotate-90 opacity-90' : ''}`}
+      title={label}
+    >
+      {choice ? (
+        <>
+          <img
+            src={placement.image}
+            alt={cardName(choice.cardId)}
+            className={`w-full h-full object-cover ${choice.orientation?.isReversed ? 'rotate-180' : ''}`}
+          />
+          <button
+            onClick={() => clearSpreadPosition(index)}
+            className="absolute top-0.5 right-0.5 w-5 h-5 flex items-center justify-center bg-red-600 text-white text-xs rounded-full hover:bg-red-700"
+            aria-label={t('spread.clearPosition', { label })}
+          >
+            ×
+          </button>
+        </>
+      ) : (
+        <span className={`text-lg font-bold ${isNext ? 'text-yellow-400' : 'text-gray-500'}`}>{index + 1}</span>
+      )}
+    </div>
+  );
+}
+
+// リーディングセッション（スプレッドの選択と、位置ごとの配置状況の表示）
+export function SpreadLayout({
+  spreadSession,
+  spreadPlacements,
+  nextSpreadPosition,
+  startSpreadSession,
+  endSpreadSession,
+  clearSpreadPosition,
+  showCardDetail,
+}: SpreadLayoutProps) {
+  const { locale, t, cardName } = useI18n();
+  const [spreadId, setSpreadId] = useState(BUILT_IN_SPREADS[0].id);
+  const [customLabels, setCustomLabels] = useState('');
+
+  const customLabelList = customLabels.split('\n').map((label) => label.trim()).filter(Boolean);
+  const canStart = spreadId !== CUSTOM_SPREAD_ID || customLabelList.length > 0;
+
+  const handleStart = () => {
+    const spread = spreadId === CUSTOM_SPREAD_ID
+      ? createCustomSpread(customLabelList)
+      : BUILT_IN_SPREADS.find((s) => s.id === spreadId);
+    if (spread) {
+      startSpreadSession(spread);
+    }
+  };
+
+  if (!spreadSession) {
+    return (
+      <div className="w-full max-w-2xl mb-6 bg-gray-800 rounded-lg p-3 flex flex-col gap-2">
+        <div className="flex gap-2">
+          <select
+            value={spreadId}
+            onChange={(e) => setSpreadId(e.target.value)}
+            aria-label={t('spread.select')}
+            className="flex-1 px-3 py-2 bg-gray-700 text-white rounded-lg"
+          >
+            {BUILT_IN_SPREADS.map((spread) => (
+              <option key={spread.id} value={spread.id}>
+                {t('spread.option', { name: localize(spread.name, locale), count: spread.positions.length })}
+              </option>
+            ))}
+            <option value={CUSTOM_SPREAD_ID}>{t('spread.custom')}</option>
+          </select>
+          <button
+            onClick={handleStart}
+            disabled={!canStart}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold disabled:bg-gray-500 disabled:cursor-not-allowed hover:bg-blue-700 transition-colors"
+          >
+            {t('spread.start')}
+          </button>
+        </div>
+        {spreadId === CUSTOM_SPREAD_ID && (
+          <textarea
+            value={customLabels}
+            onChange={(e) => setCustomLabels(e.target.value)}
+            placeholder={t('spread.customPlaceholder')}
+            rows={4}
+            className="px-3 py-2 bg-gray-700 text-white text-sm rounded-lg"
+          />
+        )}
+      </div>
+    );
+  }
+
+  const { spread } = spreadSession;
+  // 枠の位置はカードの幅を単位とするため、ピクセルに換算して全体の大きさを求める
+  const width = Math.max(...spread.positions.map((p) => p.x + 1)) * CARD_WIDTH_PX;
+  const height = Math.max(...spread.positions.map((p) => p.y + SPREAD_CARD_HEIGHT)) * CARD_WIDTH_PX;
+  const placedCount = spreadPlacements.filter((placement) => placement?.choice).length;
+
+  return (
+    <div className="w-full max-w-2xl mb-6 bg-gray-800 rounded-lg p-3">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-white font-semibold">
+          {localize(spread.name, locale)}
+          <span className="text-gray-400 text-sm ml-2">
+            {t('spread.progress', { placed: placedCount, total: spread.positions.length })}
+          </span>
+        </span>
+        <button
+          onClick={endSpreadSession}
+          className="px-3 py-1 bg-gray-700 text-white text-sm rounded-lg hover:bg-gray-600 transition-colors"
+        >
+          {t('spread.end')}
+        </button>
+      </div>
+      <p className="text-sm mb-3 text-center">
+        {nextSpreadPosition !== null ? (
+          <span className="text-yellow-400">
+            {t('spread.next', {
+              number: nextSpreadPosition + 1,
+              label: localize(spread.positions[nextSpreadPosition].label, locale),
+            })}
+          </span>
+        ) : (
+          <span className="text-green-400">{t('spread.complete')}</span>
+        )}
+      </p>
+
+      <div className="overflow-x-auto">
+        <div className="relative mx-auto" style={{ width, height }}>
+          {spread.positions.map((position, index) => {
+            const placement = spreadPlacements[index] ?? null;
+            return (
+              <div
+                key={index}
+                className="absolute"
+                style={{
+                  left: position.x * CARD_WIDTH_PX,
+                  top: position.y * CARD_WIDTH_PX,
+                  width: CARD_WIDTH_PX,
+                  height: SPREAD_CARD_HEIGHT * CARD_WIDTH_PX,
+                  // 横向きの位置は下の位置のカードに重ねて表示する
+                  zIndex: position.rotated ? 1 : 0,
+                }}
+              >
+                <SpreadSlot
+                  index={index}
+                  label={localize(position.label, locale)}
+                  rotated={!!position.rotated}
+                  placement={placement}
+                  isNext={index === nextSpreadPosition}
+                  clearSpreadPosition={clearSpreadPosition}
+                />
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* 位置ごとの意味と配置したカード */}
+      <ol className="mt-2 flex flex-col gap-1 text-sm">
+        {spread.positions.map((position, index) => {
+          const choice = spreadPlacements[index]?.choice;
+          return (
+            <li key={index} className={index === nextSpreadPosition ? 'text-yellow-400' : 'text-gray-300'}>
+              {index + 1}. {localize(position.label, locale)}:{' '}
+              {choice ? (
+                <button
+                  onClick={() => showCardDetail(choice.cardId, choice.orientation)}
+                  className="text-white text-left hover:underline"
+                  title={t('meaning.show')}
+                >
+                  {cardName(choice.cardId)}
+                  {choice.orientation && (
+                    <span className={PLACEMENT_COLORS[cardPlacement(choice.orientation)]}>
+                      {t(PLACEMENT_SUFFIXES[cardPlacement(choice.orientation)])}
+                    </span>
+                  )}
+                </button>
+              ) : (
+                <span className="text-gray-500">{t('spread.empty')}</span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  classifyCameraError,
+  listCameraDevices,
+  loadCameraSettings,
+  openCamera,
+  saveCameraSettings,
+  type CameraDevice,
+  type CameraErrorKind,
+  type CameraSettings,
+} from '@/src/lib/cameraSettings';
+import { createLogger } from '@/src/lib/logger';
+
+const log = createLogger('camera');
+
+interface UseCameraStreamReturn {
+  cameraStreamRef: React.RefObject<MediaStream | null>;
+  cameraSettings: CameraSettings | null; // サーバーでの描画時はnull
+  cameraDevices: CameraDevice[]; // 接続されているカメラ
+  cameraError: CameraErrorKind | null; // カメラを開けなかった・使えなくなった理由
+  activeResolution: { width: number; height: number } | null; // 実際に開いた映像の解像度
+  updateCameraSettings: (settings: Partial<CameraSettings>) => void; // 変更して保存し、カメラを開き直す
+  retryCamera: () => void;
+}
+
+// 選択したカメラの映像をvideo要素に流す（enabledがfalseの間はカメラを止める）
+export function useCameraStream(
+  enabled: boolean,
+  videoRef: React.RefObject<HTMLVideoElement | null>
+): UseCameraStreamReturn {
+  // 最後に選んだ設定（サーバーでの描画時はnull）
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings | null>(() =>
+    typeof window === 'undefined' ? null : loadCameraSettings()
+  );
+  const [cameraDevices, setCameraDevices] = useState<CameraDevice[]>([]);
+  const [cameraError, setCameraError] = useState<CameraErrorKind | null>(null);
+  const [activeResolution, setActiveResolution] = useState<{ width: number; height: number } | null>(null);
+  // 再試行のたびに増やしてカメラを開き直す
+  const [retryCount, setRetryCount] = useState(0);
+  const cameraStreamRef = useRef<MediaStream | null>(null);
+
+  const refreshDevices = useCallback(() => {
+    listCameraDevices()
+      .then(setCameraDevices)
+      .catch((error) => {
+        log.warn('カメラの一覧を取得できませんでした:', error);
+      });
+  }, []);
+
+  // カメラの接続・取り外しで一覧を更新
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices) {
+      return;
+    }
+    mediaDevices.addEventListener('devicechange', refreshDevices);
+    return () => mediaDevices.removeEventListener('devicechange', refreshDevices);
+  }, [refreshDevices]);
+
+  // カメラストリームの開始
+  useEffect(() => {
+    if (!enabled || !cameraSettings) {
+      return;
+    }
+
+    const video = videoRef.current;
+    let cancelled = false;
+    // 開き直している間は直前のエラーの案内を残し、開けた時点で消す
+    openCamera(cameraSettings)
+      .then((stream) => {
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        setCameraError(null);
+        cameraStreamRef.current = stream;
+        if (video) {
+          video.srcObject = stream;
+        }
+        const [track] = stream.getVideoTracks();
+        const { width, height } = track.getSettings();
+        setActiveResolution(width && height ? { width, height } : null);
+        // カメラが取り外されるとトラックが終了する
+        track.addEventListener('ended', () => {
+          if (!cancelled && cameraStreamRef.current === stream) {
+            log.warn('カメラが切断されました');
+            setCameraError('disconnected');
+            setActiveResolution(null);
+          }
+        });
+        // カメラの名前は使用を許可した後でないと取得できないため、開いた後に一覧を取得し直す
+        refreshDevices();
+      })
+      .catch((error) => {
+        if (cancelled) {
+          return;
+        }
+        const kind = classifyCameraError(error);
+        log.warn(`カメラを開けませんでした (${kind}):`, error);
+        setCameraError(kind);
+        setActiveResolution(null);
+        if (kind !== 'permissionDenied') {
+          refreshDevices();
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      if (cameraStreamRef.current) {
+        cameraStreamRef.current.getTracks().forEach((track) => track.stop());
+        cameraStreamRef.current = null;
+      }
+      if (video && video.srcObject) {
+        const stream = video.srcObject as MediaStream;
+        stream.getTracks().forEach((track) => track.stop());
+        video.srcObject = null;
+      }
+    };
+  }, [enabled, cameraSettings, retryCount, videoRef, refreshDevices]);
+
+  const updateCameraSettings = useCallback(
+    (settings: Partial<CameraSettings>) => {
+      if (!cameraSettings) {
+        return;
+      }
+      const next = { ...cameraSettings, ...settings };
+      saveCameraSettings(next);
+      setCameraSettings(next);
+    },
+    [cameraSettings]
+  );
+
+  const retryCamera = useCallback(() => {
+    setRetryCount((count) => count + 1);
+  }, []);
+
+  return {
+    cameraStreamRef,
+    cameraSettings,
+    cameraDevices,
+    cameraError,
+    activeResolution,
+    updateCameraSettings,
+    retryCamera,
+  };
+}
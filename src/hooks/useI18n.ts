@@ -0,0 +1,22 @@
+'use client';
+
+import { createContext, useContext } from 'react';
+import type { Locale, MessageKey, MessageParams } from '@/src/lib/i18n';
+
+export interface I18n {
+  locale: Locale;
+  setLocale: (locale: Locale) => void; // 選択した言語はクッキーに保存する
+  t: (key: MessageKey, params?: MessageParams) => string;
+  cardName: (cardId: string) => string; // カタログの表示中の言語のカード名
+}
+
+export const I18nContext = createContext<I18n | null>(null);
+
+// 表示中の言語と文言（LocaleProviderの中で使う）
+export function useI18n(): I18n {
+  const i18n = useContext(I18nContext);
+  if (!i18n) {
+    throw new Error('useI18nはLocaleProviderの中で使用してください');
+  }
+  return i18n;
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { createLogger } from '@/src/lib/logger';
+import { deleteReading, listReadings, saveReading, type ReadingRecord } from '@/src/lib/readingHistory';
+
+const log = createLogger('history');
+
+interface UseReadingHistoryReturn {
+  readings: ReadingRecord[]; // 保存済みのリーディング（新しい順）
+  putReading: (reading: ReadingRecord) => Promise<boolean>; // 追加または更新（保存できたかを返す）
+  removeReading: (id: string) => Promise<void>;
+}
+
+// IndexedDBに保存したリーディングの履歴
+export function useReadingHistory(): UseReadingHistoryReturn {
+  const [readings, setReadings] = useState<ReadingRecord[]>([]);
+
+  // 保存済みのリーディングを読み込む
+  useEffect(() => {
+    listReadings()
+      .then((saved) => {
+        // 読み込み中に追加されたリーディングは残す
+        setReadings((prev) => {
+          const ids = new Set(prev.map((r) => r.id));
+          return [...prev, ...saved.filter((r) => !ids.has(r.id))].sort((a, b) => b.createdAt - a.createdAt);
+        });
+      })
+      .catch((error) => {
+        log.warn('リーディングの履歴を読み込めませんでした:', error);
+      });
+  }, []);
+
+  const putReading = useCallback(async (reading: ReadingRecord) => {
+    try {
+      await saveReading(reading);
+      setReadings((prev) =>
+        [reading, ...prev.filter((r) => r.id !== reading.id)].sort((a, b) => b.createdAt - a.createdAt)
+      );
+      return true;
+    } catch (error) {
+      log.error('リーディングの保存に失敗しました:', error);
+      return false;
+    }
+  }, []);
+
+  const removeReading = useCallback(async (id: string) => {
+    try {
+      await deleteReading(id);
+      setReadings((prev) => prev.filter((r) => r.id !== id));
+    } catch (error) {
+      log.error('リーディングの削除に失敗しました:', error);
+    }
+  }, []);
+
+  return { readings, putReading, removeReading };
+}
@@ -1,387 +1,463 @@
 'use client';
 
-import { useState, useEffect, useRef, useCallback } from 'react';
-
-// 1つのマスター画像の特徴量データ
-interface MasterImageData {
-  keypoints: any;
-  descriptors: any;
-}
-
-// 1つのカードの全マスター画像の特徴量データ（配列）
-interface MasterData {
-  images: MasterImageData[];
-  displayName: string;
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { useCameraStream } from '@/src/hooks/useCameraStream';
+import { useReadingHistory } from '@/src/hooks/useReadingHistory';
+import type { CameraDevice, CameraErrorKind, CameraSettings } from '@/src/lib/cameraSettings';
+import { canonicalCardRotation, quadCenter, isQuadStable, type Point } from '@/src/lib/cardGeometry';
+import type { DetectedRect } from '@/src/lib/cardDetection';
+import type { Candidate, MatchTiming } from '@/src/lib/cardMatching';
+import { stillImageSize, type DeckMatchResult } from '@/src/lib/cardRecognition';
+import {
+  deleteEnrolledSample,
+  listEnrolledSamples,
+  saveEnrolledSample,
+  type EnrolledSample,
+} from '@/src/lib/enrollmentStore';
+import { DEFAULT_FEATURE_STRATEGY, type FeatureStrategyId } from '@/src/lib/featureStrategies';
+import {
+  createLogger,
+  getLogThreshold,
+  loadLogThreshold,
+  recordLogEntry,
+  saveLogThreshold,
+  type LogThreshold,
+} from '@/src/lib/logger';
+import { AUTO_DETECT_DECK, type DeckInfo } from '@/src/lib/masterData';
+import {
+  assessConfidence,
+  DEFAULT_CONFIDENCE_THRESHOLDS,
+  type ConfidenceThresholds,
+  type MatchConfidence,
+} from '@/src/lib/matchConfidence';
+import type { OpenCvAsset } from '@/src/lib/opencvLoader';
+import openCvAssetJson from '@/src/lib/opencv-asset.json';
+import {
+  chooseCard,
+  getReading,
+  READING_CANDIDATE_LIMIT,
+  type ReadingCard,
+  type ReadingRecord,
+} from '@/src/lib/readingHistory';
+import {
+  assignReading,
+  availablePositions,
+  createSpreadSession,
+  placedCardIds,
+  resolvePlacements,
+  type SpreadDefinition,
+  type SpreadPlacement,
+  type SpreadSession,
+} from '@/src/lib/spreads';
+import type {
+  CvWorkerRequest,
+  CvWorkerResponse,
+  EnrolledSampleImage,
+  FrameDiagnostics,
+  InitErrorStage,
+} from '@/src/workers/cvWorkerMessages';
+
+// 複数カードモードで検出・解析された1枚分の結果
+interface SpreadCardDetection {
+  position: number; // 読み順（左→右、上→下）での位置（1始まり）
+  rect: DetectedRect;
+  image: string;
+  candidates: Candidate[];
+  timing: MatchTiming;
+  deckId: string; // 候補のデッキ（自動判別では判別されたデッキ）
 }
 
-interface Candidate {
-  cardName: string;
-  matchCount: number;
+// 除外リストを反映した複数カードモードの解析結果（信頼度付き）
+type SpreadCardResult = SpreadCardDetection & { confidence: MatchConfidence | null };
+
+export interface UseTarotReaderOptions {
+  autoCaptureStableFrames?: number; // 自動撮影までに必要な連続安定フレーム数
+  autoCaptureStableMs?: number; // 自動撮影までに必要な安定時間（ミリ秒）
+  autoCaptureTolerance?: number; // 安定とみなす頂点の移動量（フレーム対角線の長さに対する比率）
+  openCvTimeoutMs?: number; // OpenCV.jsの取得・初期化それぞれの制限時間（ミリ秒）
+  openCvMaxAttempts?: number; // OpenCV.jsのロードを試行する最大回数
+  featureStrategy?: FeatureStrategyId; // 初期状態の特徴量抽出・マッチング戦略
+  deck?: string; // 初期状態のデッキIDまたはAUTO_DETECT_DECK（省略時はマニフェストの最初のデッキ）
+  prefilterTopK?: number; // 色ヒストグラム・知覚ハッシュで絞り込んだ上位何枚を特徴点マッチングするか（0以下で絞り込まない）
+  confidenceThresholds?: Partial<ConfidenceThresholds>; // 「該当カードなし」と判定する閾値
 }
 
-interface DetectedRect {
-  points: Array<{ x: number; y: number }>;
-  area: number;
+// 初期化の失敗内容（どの段階で失敗したか）
+// stageが'manifest'の場合はmaster-list.jsonの形式が古いなど互換性がないため、再試行しても解決しない
+export interface LoadError {
+  stage: InitErrorStage;
+  message: string;
 }
 
 interface UseTarotReaderReturn {
   isCvLoaded: boolean;
   isMasterReady: boolean;
+  loadError: LoadError | null;
   isAnalyzing: boolean;
   hasSavedImage: boolean;
   candidates: Candidate[];
-  blacklist: string[];
+  matchTiming: MatchTiming | null; // 直近の単一カードのマッチングの処理時間
+  matchConfidence: MatchConfidence | null; // 候補の1位の信頼度（候補がない場合はnull）
+  matchedDeckId: string | null; // 直近の単一カードの候補のデッキ
+  blacklist: string[]; // 除外したカードID
   detectedRect: DetectedRect | null;
   detectedRectImage: string | null;
+  isMultiCardMode: boolean;
+  detectedRects: DetectedRect[];
+  detectedRectImages: string[];
+  spreadDetections: SpreadCardResult[];
+  isAutoCaptureEnabled: boolean;
+  featureStrategy: FeatureStrategyId;
+  deck: string | null; // 読み込んだデッキIDまたはAUTO_DETECT_DECK（マスターデータの準備前はnull）
+  decks: DeckInfo[]; // 選択できるデッキ
+  enrolledSamples: EnrolledSample[]; // アプリ内で登録したマスター画像（登録順）
+  readings: ReadingRecord[]; // リーディングの履歴（新しい順）
+  spreadSession: SpreadSession | null; // 進行中のリーディングセッション
+  spreadPlacements: Array<SpreadPlacement | null>; // セッションの位置ごとの配置（スプレッドの位置の順）
+  nextSpreadPosition: number | null; // 次に撮影したカードを割り当てる位置（すべて配置済みの場合はnull）
+  cameraSettings: CameraSettings | null; // 選択中のカメラ・向き・解像度（サーバーでの描画時はnull）
+  cameraDevices: CameraDevice[]; // 接続されているカメラ
+  cameraError: CameraErrorKind | null; // カメラを開けなかった・使えなくなった理由
+  activeResolution: { width: number; height: number } | null; // 実際に開いた映像の解像度
+  // 直近のフレームの検出の診断情報（毎フレーム更新されるため、ステートにせず診断パネルが購読する）
+  getFrameDiagnostics: () => FrameDiagnostics | null;
+  subscribeFrameDiagnostics: (listener: () => void) => () => void;
+  logLevel: LogThreshold;
   videoRef: React.RefObject<HTMLVideoElement | null>;
   canvasRef: React.RefObject<HTMLCanvasElement | null>;
   captureImage: () => void;
+  analyzeImageFile: (file: Blob) => Promise<boolean>; // 画像ファイルからカードを検出して解析（画像として読み込めない場合はfalse）
   deleteImage: () => void;
-  addToBlacklist: (card: string) => void;
+  addToBlacklist: (cardId: string) => void;
+  setMultiCardMode: (enabled: boolean) => void;
+  setAutoCaptureEnabled: (enabled: boolean) => void;
+  setFeatureStrategy: (strategy: FeatureStrategyId) => void;
+  setDeck: (deck: string) => void;
+  enrollCard: (cardId: string) => Promise<boolean>; // 検出中のカードの切り出し画像を選択中のデッキのマスター画像として登録
+  removeEnrolledSample: (id: string) => Promise<void>;
+  importEnrolledSamples: (samples: EnrolledSample[]) => Promise<number>; // 追加した件数を返す（登録済みのIDは除く）
+  deleteReading: (id: string) => Promise<void>;
+  updateReadingNote: (id: string, note: string) => Promise<void>;
+  startSpreadSession: (spread: SpreadDefinition) => void;
+  endSpreadSession: () => void;
+  clearSpreadPosition: (index: number) => void; // 位置の割り当てを外して撮影し直せるようにする
+  retryLoad: () => void;
+  setLogLevel: (logLevel: LogThreshold) => void; // コンソールに出力する最低レベル（Worker内のログにも反映して保存する）
+  updateCameraSettings: (settings: Partial<CameraSettings>) => void; // 変更して保存し、カメラを開き直す
+  retryCamera: () => void;
 }
 
 const STORAGE_KEY = 'tarot-captured-image';
+// 撮影中の画像のリーディングID（再読み込み時に候補と除外リストを履歴から復元する）
+const CURRENT_READING_KEY = 'tarot-current-reading';
+// 進行中のリーディングセッション（再読み込みしても続きから撮影できるように保存）
+const SPREAD_SESSION_KEY = 'tarot-spread-session';
+
+// リーディングセッションをlocalStorageに保存（nullの場合は削除）
+function persistSpreadSession(session: SpreadSession | null) {
+  if (session) {
+    localStorage.setItem(SPREAD_SESSION_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(SPREAD_SESSION_KEY);
+  }
+}
+const loadingLog = createLogger('loading');
+const detectionLog = createLogger('detection');
+const matchingLog = createLogger('matching');
+const cameraLog = createLogger('camera');
+const captureLog = createLogger('capture');
+const enrollmentLog = createLogger('enrollment');
+const historyLog = createLogger('history');
+const sessionLog = createLogger('session');
+
+// 自前でホストしているバージョン固定のOpenCV.js（scripts/copy-opencv.mjs が固定値と照合して配置）
+const OPENCV_ASSET: OpenCvAsset = openCvAssetJson;
+
+// Workerへの要求（マッチング・静止画の検出）の応答待ち
+interface PendingRequest<T> {
+  resolve: (result: T) => void;
+  reject: (error: Error) => void;
+}
 
-// 大アルカナ22枚のIDリスト（master-list.jsonから動的に読み込むため、ここでは使用しない）
-// const MAJOR_ARCANA_IDS = [
-//   'FOOL',
-//   'MAGICIAN',
-//   'HIGHPRIESTESS',
-//   'EMPRESS',
-//   'EMPEROR',
-//   'HIEROPHANT',
-//   'LOVERS',
-//   'CHARIOT',
-//   'STRENGTH',
-//   'HERMIT',
-//   'WHEELOFFORTUNE',
-//   'JUSTICE',
-//   'HANGEDMAN',
-//   'DEATH',
-//   'TEMPERANCE',
-//   'DEVIL',
-//   'TOWER',
-//   'STAR',
-//   'MOON',
-//   'SUN',
-//   'JUDGEMENT',
-//   'WORLD',
-// ] as const;
-
-// カードIDから表示名へのマッピング
-const CARD_DISPLAY_NAMES: Record<string, string> = {
-  FOOL: 'THE FOOL',
-  MAGICIAN: 'THE MAGICIAN',
-  HIGHPRIESTESS: 'THE HIGH PRIESTESS',
-  EMPRESS: 'THE EMPRESS',
-  EMPEROR: 'THE EMPEROR',
-  HIEROPHANT: 'THE HIEROPHANT',
-  LOVERS: 'THE LOVERS',
-  CHARIOT: 'THE CHARIOT',
-  STRENGTH: 'STRENGTH',
-  HERMIT: 'THE HERMIT',
-  WHEELOFFORTUNE: 'WHEEL OF FORTUNE',
-  JUSTICE: 'JUSTICE',
-  HANGEDMAN: 'THE HANGED MAN',
-  DEATH: 'DEATH',
-  TEMPERANCE: 'TEMPERANCE',
-  DEVIL: 'THE DEVIL',
-  TOWER: 'THE TOWER',
-  STAR: 'THE STAR',
-  MOON: 'THE MOON',
-  SUN: 'THE SUN',
-  JUDGEMENT: 'JUDGEMENT',
-  WORLD: 'THE WORLD',
-};
-
-// 矩形の4点を左上、右上、右下、左下の順に並べ替える関数
-function sortRectanglePoints(points: Array<{ x: number; y: number }>): Array<{ x: number; y: number }> {
-  if (points.length !== 4) return points;
-  
-  // 各点を左上、右上、右下、左下に分類
-  // 左上: x+yが最小
-  // 右下: x+yが最大
-  // 右上: x-yが最大
-  // 左下: x-yが最小
-  const sum = points.map(p => ({ point: p, sum: p.x + p.y }));
-  const diff = points.map(p => ({ point: p, diff: p.x - p.y }));
-  
-  const leftTop = sum.reduce((min, p) => p.sum < min.sum ? p : min, sum[0]).point;
-  const rightBottom = sum.reduce((max, p) => p.sum > max.sum ? p : max, sum[0]).point;
-  const rightTop = diff.reduce((max, p) => p.diff > max.diff ? p : max, diff[0]).point;
-  const leftBottom = diff.reduce((min, p) => p.diff < min.diff ? p : min, diff[0]).point;
-  
-  return [leftTop, rightTop, rightBottom, leftBottom];
+// 静止画から検出・切り出したカード
+interface StillDetection {
+  rects: DetectedRect[];
+  images: string[];
 }
 
-// 矩形の形状チェック関数（カードの形状に近いか確認）
-function checkRectangleShape(points: Array<{ x: number; y: number }>): boolean {
-  if (points.length !== 4) return false;
-  
-  // 4つの頂点から辺の長さを計算
-  const distances: number[] = [];
-  for (let i = 0; i < 4; i++) {
-    const p1 = points[i];
-    const p2 = points[(i + 1) % 4];
-    const dx = p2.x - p1.x;
-    const dy = p2.y - p1.y;
-    const dist = Math.sqrt(dx * dx + dy * dy);
-    distances.push(dist);
-  }
-  
-  // 対辺の長さがほぼ等しいかチェック（誤差10%以内）
-  const opposite1Ratio = Math.min(distances[0], distances[2]) / Math.max(distances[0], distances[2]);
-  const opposite2Ratio = Math.min(distances[1], distances[3]) / Math.max(distances[1], distances[3]);
-  
-  if (opposite1Ratio < 0.9 || opposite2Ratio < 0.9) {
-    return false; // 対辺の長さが大きく異なる
-  }
-  
-  // アスペクト比をチェック（カードは通常、縦長または横長の長方形）
-  const width = Math.max(distances[0], distances[2]);
-  const height = Math.max(distances[1], distances[3]);
-  const aspectRatio = width / height;
-  
-  // アスペクト比が0.5～2.0の範囲内（カードの一般的な形状）
-  if (aspectRatio < 0.5 || aspectRatio > 2.0) {
-    return false; // アスペクト比が極端
+// 静止画の全体を保存する場合の画質（写真はPNGではlocalStorageの容量を超えやすいためJPEGで保存する）
+const STILL_IMAGE_JPEG_QUALITY = 0.9;
+
+// 登録サンプルの画像をWorkerに送れる形（ImageBitmap）に変換
+async function toEnrolledSampleImages(samples: EnrolledSample[]): Promise<EnrolledSampleImage[]> {
+  return Promise.all(samples.map(async (sample) => ({
+    id: sample.id,
+    deckId: sample.deckId,
+    cardId: sample.cardId,
+    image: await createImageBitmap(sample.image),
+  })));
+}
+
+// 四角形の枠線を描画（dashedは検出の途切れを補完中であることを示す）
+function drawQuad(ctx: CanvasRenderingContext2D, points: Point[], color: string, dashed = false) {
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 3;
+  ctx.setLineDash(dashed ? [10, 6] : []);
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+  for (let i = 1; i < points.length; i++) {
+    ctx.lineTo(points[i].x, points[i].y);
   }
-  
-  // 角度をチェック（4つの角がほぼ90度に近いか）
-  for (let i = 0; i < 4; i++) {
-    const p1 = points[i];
-    const p2 = points[(i + 1) % 4];
-    const p3 = points[(i + 2) % 4];
-    
-    // ベクトルを計算
-    const v1x = p2.x - p1.x;
-    const v1y = p2.y - p1.y;
-    const v2x = p3.x - p2.x;
-    const v2y = p3.y - p2.y;
-    
-    // 内積から角度を計算
-    const dot = v1x * v2x + v1y * v2y;
-    const len1 = Math.sqrt(v1x * v1x + v1y * v1y);
-    const len2 = Math.sqrt(v2x * v2x + v2y * v2y);
-    const cosAngle = dot / (len1 * len2);
-    const angle = Math.acos(Math.max(-1, Math.min(1, cosAngle))) * (180 / Math.PI);
-    
-    // 角度が70度～110度の範囲内（90度±20度）
-    if (angle < 70 || angle > 110) {
-      return false; // 角度が90度から大きく外れている
-    }
+  ctx.closePath();
+  ctx.stroke();
+  ctx.restore();
+}
+
+// 複数カードモードの矩形を緑色の枠線と読み順の番号で描画
+function drawNumberedQuads(ctx: CanvasRenderingContext2D, rects: DetectedRect[]) {
+  rects.forEach((rect, index) => {
+    drawQuad(ctx, rect.points, '#00ff00');
+
+    const center = quadCenter(rect.points);
+    ctx.fillStyle = '#00ff00';
+    ctx.font = 'bold 32px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(String(index + 1), center.x, center.y);
+  });
+}
+
+// 自動撮影までの進捗リングと残り秒数を描画
+function drawAutoCaptureProgress(ctx: CanvasRenderingContext2D, center: Point, progress: number, remainingMs: number) {
+  const radius = 36;
+  ctx.save();
+  ctx.lineWidth = 6;
+
+  // 背景のリング
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.5)';
+  ctx.beginPath();
+  ctx.arc(center.x, center.y, radius, 0, Math.PI * 2);
+  ctx.stroke();
+
+  // 進捗（12時の位置から時計回り）
+  ctx.strokeStyle = '#00ff00';
+  ctx.beginPath();
+  ctx.arc(center.x, center.y, radius, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * progress);
+  ctx.stroke();
+
+  if (remainingMs > 0) {
+    ctx.fillStyle = '#ffffff';
+    ctx.font = 'bold 24px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(String(Math.ceil(remainingMs / 1000)), center.x, center.y);
   }
-  
-  return true; // すべてのチェックを通過
+  ctx.restore();
 }
 
-export function useTarotReader(): UseTarotReaderReturn {
+// データURLから画像要素をロード
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('画像のロードに失敗しました'));
+    img.src = src;
+  });
+}
+
+export function useTarotReader({
+  autoCaptureStableFrames = 20,
+  autoCaptureStableMs = 1500,
+  autoCaptureTolerance = 0.01,
+  openCvTimeoutMs = 30000,
+  openCvMaxAttempts = 3,
+  featureStrategy: initialFeatureStrategy = DEFAULT_FEATURE_STRATEGY,
+  deck: initialDeck,
+  prefilterTopK = 10,
+  confidenceThresholds,
+}: UseTarotReaderOptions = {}): UseTarotReaderReturn {
   const [isCvLoaded, setIsCvLoaded] = useState(false);
   const [isMasterReady, setIsMasterReady] = useState(false);
+  const [loadError, setLoadError] = useState<LoadError | null>(null);
+  // 再試行のたびに増やしてWorkerを起動し直す
+  const [workerGeneration, setWorkerGeneration] = useState(0);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [hasSavedImage, setHasSavedImage] = useState(false);
   const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [matchTiming, setMatchTiming] = useState<MatchTiming | null>(null);
+  const [matchedDeckId, setMatchedDeckId] = useState<string | null>(null);
   const [blacklist, setBlacklist] = useState<string[]>([]);
   const [detectedRect, setDetectedRect] = useState<DetectedRect | null>(null);
   const [detectedRectImage, setDetectedRectImage] = useState<string | null>(null);
+  const [isMultiCardMode, setIsMultiCardMode] = useState(false);
+  const [detectedRects, setDetectedRects] = useState<DetectedRect[]>([]);
+  const [detectedRectImages, setDetectedRectImages] = useState<string[]>([]);
+  const [spreadDetections, setSpreadDetections] = useState<SpreadCardDetection[]>([]);
+  const [isAutoCaptureEnabled, setIsAutoCaptureEnabled] = useState(false);
+  const [featureStrategy, setFeatureStrategyState] = useState<FeatureStrategyId>(initialFeatureStrategy);
+  // Workerの起動時に使う戦略（戦略の切り替えでWorkerを起動し直さないよう参照で保持）
+  const featureStrategyRef = useRef<FeatureStrategyId>(initialFeatureStrategy);
+  const [deck, setDeckState] = useState<string | null>(null);
+  const [decks, setDecks] = useState<DeckInfo[]>([]);
+  // Workerの起動時に使うデッキ（戦略と同様に参照で保持）
+  const deckRef = useRef<string | null>(initialDeck ?? null);
+  const [enrolledSamples, setEnrolledSamples] = useState<EnrolledSample[]>([]);
+  const { readings, putReading, removeReading } = useReadingHistory();
+  // 撮影中の画像のリーディング（除外リストの変更を反映して保存し直す）
+  const currentReadingRef = useRef<ReadingRecord | null>(null);
+  // 描画時に参照するための撮影中のリーディングID
+  const [currentReadingId, setCurrentReadingId] = useState<string | null>(null);
+  const [spreadSession, setSpreadSession] = useState<SpreadSession | null>(null);
+  // 直近のフレームの診断情報と購読者（診断パネルを閉じている間はCameraView全体を再描画しない）
+  const frameDiagnosticsRef = useRef<FrameDiagnostics | null>(null);
+  const frameDiagnosticsListenersRef = useRef(new Set<() => void>());
+  // 保存したレベルを適用する（サーバーでの描画時は既定のレベル）
+  const [logLevel, setLogLevelState] = useState<LogThreshold>(() =>
+    typeof window === 'undefined' ? getLogThreshold() : loadLogThreshold()
+  );
+  // 信頼度は除外後の候補で判定する（1位が除外された場合は繰り上がった候補で判定）
+  const thresholds = useMemo(
+    () => ({ ...DEFAULT_CONFIDENCE_THRESHOLDS, ...confidenceThresholds }),
+    [confidenceThresholds]
+  );
+  // リーディングセッションの位置ごとの配置（履歴のリーディングから求める）
+  const spreadPlacements = useMemo(
+    () => (spreadSession ? resolvePlacements(spreadSession, readings) : []),
+    [spreadSession, readings]
+  );
+  // 撮影中のリーディング以外でスプレッドに配置済みのカード（候補から除く）
+  const sessionExcludedCardIds = useMemo(
+    () => placedCardIds(spreadPlacements, currentReadingId),
+    [spreadPlacements, currentReadingId]
+  );
   const videoRef = useRef<HTMLVideoElement>(null);
+  // 画像を保存している間はカメラを止める
+  const {
+    cameraStreamRef,
+    cameraSettings,
+    cameraDevices,
+    cameraError,
+    activeResolution,
+    updateCameraSettings,
+    retryCamera,
+  } = useCameraStream(!hasSavedImage, videoRef);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationFrameRef = useRef<number | null>(null);
   const savedImageRef = useRef<string | null>(null);
   const savedImageElementRef = useRef<HTMLImageElement | null>(null);
-  // Map構造で特徴量をキャッシュ
-  const masterDataMapRef = useRef<Map<string, MasterData>>(new Map());
-  // 矩形検出の安定性を追跡（自動撮影の準備）
+  // OpenCVの処理（検出・マッチング）を行うWorker
+  const workerRef = useRef<Worker | null>(null);
+  // Workerがフレームを処理中か（処理中に届いたフレームはキューに積まずに捨てる）
+  const workerBusyRef = useRef(false);
+  const frameIdRef = useRef(0);
+  // Workerへの要求の番号と応答待ち
+  const requestIdRef = useRef(0);
+  const pendingMatchesRef = useRef<Map<number, PendingRequest<DeckMatchResult[]>>>(new Map());
+  const pendingStillDetectionsRef = useRef<Map<number, PendingRequest<StillDetection>>>(new Map());
+  // Workerからのメッセージを最新の状態で処理するための参照
+  const handleWorkerMessageRef = useRef<(message: CvWorkerResponse) => void>(() => {});
+  // 矩形検出の安定性を追跡（自動撮影の判定に使用）
   const rectDetectionCountRef = useRef<number>(0);
-  // カメラストリームを保持
-  const cameraStreamRef = useRef<MediaStream | null>(null);
-  // 最後に矩形が検出された時刻を記録（一定時間有効化のため）
-  const lastDetectionTimeRef = useRef<number | null>(null);
-  // タイマーIDを保持
+  // 前フレームで検出された四角形と、安定し始めた時刻
+  const lastFrameQuadsRef = useRef<Point[][]>([]);
+  const stableSinceRef = useRef<number | null>(null);
+  // 検出結果の処理から撮影を呼び出すための参照（captureImageは後で定義されるため）
+  const captureImageRef = useRef<(() => void) | null>(null);
+  // 複数カードモードで画像を一定時間保持するタイマーIDを保持
   const detectionTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // detectedRectImagesの切り出し元となった矩形（撮影時に位置情報として使用）
+  const detectedRectImagesSourceRef = useRef<DetectedRect[]>([]);
+  // detectedRectImageの切り出し元となった矩形（撮影時にカードの回転角の推定に使用）
+  const detectedRectImageSourceRef = useRef<DetectedRect | null>(null);
 
-  // OpenCV.jsのロード
-  useEffect(() => {
-    // 既にロード済みかチェック
-    if (window.cv) {
-      setIsCvLoaded(true);
-      console.log('OpenCV.js Ready');
-      return;
-    }
+  const postToWorker = useCallback((request: CvWorkerRequest, transfer: Transferable[] = []) => {
+    workerRef.current?.postMessage(request, transfer);
+  }, []);
 
-    // ScriptタグでOpenCV.jsをロード
-    const script = document.createElement('script');
-    script.src = 'https://docs.opencv.org/4.x/opencv.js';
-    script.async = true;
-    script.onload = () => {
-      console.log('[OpenCV.js] スクリプトロード完了');
-      // OpenCV.jsの初期化を待つ
-      if (window.cv) {
-        console.log('[OpenCV.js] window.cvが存在します');
-        if (window.cv.onRuntimeInitialized) {
-          console.log('[OpenCV.js] 初期化を待機中...');
-          window.cv.onRuntimeInitialized = () => {
-            setIsCvLoaded(true);
-            console.log('[OpenCV.js] 初期化完了 - 準備完了');
-          };
-        } else {
-          // 既に初期化済みの場合
-          console.log('[OpenCV.js] 既に初期化済みと判断');
-          setIsCvLoaded(true);
-          console.log('[OpenCV.js] 既に初期化済み');
+  // OpenCV Workerの起動（OpenCV.jsのロードとマスターデータの初期化はWorker内で行う）
+  useEffect(() => {
+    const worker = new Worker(new URL('../workers/cv.worker.ts', import.meta.url));
+    const pendingRequests = [pendingMatchesRef.current, pendingStillDetectionsRef.current];
+    workerRef.current = worker;
+
+    // 応答を待っている要求をすべて失敗させ、フレームの検出を再開できるようにする
+    const rejectPendingRequests = (message: string) => {
+      workerBusyRef.current = false;
+      for (const pendingMap of pendingRequests) {
+        for (const pending of pendingMap.values()) {
+          pending.reject(new Error(message));
         }
-      } else {
-        console.error('[OpenCV.js] window.cvが存在しません');
+        pendingMap.clear();
       }
     };
-    
-    script.onerror = () => {
-      console.error('[OpenCV.js] スクリプトのロードに失敗しました');
-    };
-    document.body.appendChild(script);
 
-    return () => {
-      // クリーンアップ
-      if (document.body.contains(script)) {
-        document.body.removeChild(script);
-      }
+    worker.onmessage = (event: MessageEvent<CvWorkerResponse>) => {
+      handleWorkerMessageRef.current(event.data);
+    };
+    // Worker内の捕捉されなかった例外では、処理中の要求の応答は届かない
+    worker.onerror = (event) => {
+      loadingLog.error('OpenCV Workerのエラー:', event.message);
+      rejectPendingRequests(`OpenCV Workerのエラー: ${event.message}`);
     };
-  }, []);
-
-  // ORB作成ヘルパー関数
-  const createORB = useCallback((maxFeatures: number = 500) => {
-    const cv = window.cv;
-    if (cv.ORB_create) {
-      return cv.ORB_create(maxFeatures);
-    } else if (cv.ORB && typeof cv.ORB === 'function') {
-      return new cv.ORB(maxFeatures);
-    } else if (cv.ORB && cv.ORB.create) {
-      return cv.ORB.create(maxFeatures);
-    } else {
-      throw new Error('ORB is not available in this OpenCV.js build. Make sure features2d module is included.');
-    }
-  }, []);
-
-  // BFMatcher作成ヘルパー関数
-  const createBFMatcher = useCallback((normType: number, crossCheck: boolean = false) => {
-    const cv = window.cv;
-    if (cv.BFMatcher_create) {
-      return cv.BFMatcher_create(normType, crossCheck);
-    } else if (cv.BFMatcher && typeof cv.BFMatcher === 'function') {
-      return new cv.BFMatcher(normType, crossCheck);
-    } else if (cv.BFMatcher && cv.BFMatcher.create) {
-      return cv.BFMatcher.create(normType, crossCheck);
-    } else {
-      throw new Error('BFMatcher is not available in this OpenCV.js build. Make sure features2d module is included.');
-    }
-  }, []);
 
-  // マスターデータのロードとORB特徴量計算（フォルダベースの複数画像ロード）
-  useEffect(() => {
-    if (!isCvLoaded) return;
-
-    // 1つのマスター画像をロードして特徴量を計算
-    const loadMasterImage = async (cardName: string, imagePath: string): Promise<MasterImageData | null> => {
-      return new Promise((resolve) => {
-        const img = new Image();
-        img.onload = () => {
-          try {
-            const src = window.cv.imread(img);
-            const gray = new window.cv.Mat();
-            window.cv.cvtColor(src, gray, window.cv.COLOR_RGBA2GRAY);
-
-            const orb = createORB(500);
-            const keypoints = new window.cv.KeyPointVector();
-            const descriptors = new window.cv.Mat();
-
-            orb.detectAndCompute(gray, new window.cv.Mat(), keypoints, descriptors);
-
-            // メモリ解放（keypointsとdescriptorsは保持するため削除しない）
-            src.delete();
-            gray.delete();
-            orb.delete();
-
-            resolve({
-              keypoints,
-              descriptors,
-            });
-          } catch (error) {
-            console.error(`✗ ${cardName}の画像(${imagePath})の特徴量計算エラー:`, error);
-            resolve(null);
-          }
-        };
-        img.onerror = () => {
-          console.warn(`✗ ${cardName}の画像が見つかりません: ${imagePath} (スキップします)`);
-          resolve(null);
-        };
-        img.src = imagePath;
+    loadingLog.info(`データベースを準備中... (OpenCV.js ${OPENCV_ASSET.version})`);
+    worker.postMessage({
+      type: 'init',
+      openCvUrl: OPENCV_ASSET.path,
+      openCvIntegrity: OPENCV_ASSET.integrity,
+      openCvTimeoutMs,
+      openCvMaxAttempts,
+      featureStrategy: featureStrategyRef.current,
+      deck: deckRef.current,
+      descriptorDatabaseBaseUrl: '/lib',
+      masterListUrl: '/lib/master-list.json',
+      masterBaseUrl: '/master',
+      logLevel: getLogThreshold(),
+    } satisfies CvWorkerRequest);
+
+    // 保存済みの登録サンプルを読み込み、マスターデータに追加するようWorkerに送る
+    listEnrolledSamples()
+      .then(async (samples) => {
+        setEnrolledSamples(samples);
+        if (samples.length > 0) {
+          const images = await toEnrolledSampleImages(samples);
+          worker.postMessage({ type: 'addEnrolledSamples', samples: images } satisfies CvWorkerRequest, images.map((s) => s.image));
+          enrollmentLog.info(`登録サンプルを読み込みました: ${samples.length} 件`);
+        }
+      })
+      .catch((error) => {
+        enrollmentLog.warn('登録サンプルの読み込みに失敗しました:', error);
       });
-    };
 
-    // 1つのカードの全画像をロード
-    const loadCardImages = async (cardName: string, imageFiles: string[]): Promise<MasterImageData[]> => {
-      const loadPromises = imageFiles.map((imageFile) =>
-        loadMasterImage(cardName, `/master/${cardName}/${imageFile}`)
-      );
-      const results = await Promise.all(loadPromises);
-      return results.filter((r): r is MasterImageData => r !== null);
+    return () => {
+      // Workerを終了すると、Worker内のcv.Matオブジェクトもすべて解放される
+      worker.terminate();
+      workerRef.current = null;
+      rejectPendingRequests('OpenCV Workerが終了しました');
     };
+  }, [workerGeneration, openCvTimeoutMs, openCvMaxAttempts]);
+
+  // 初期化に失敗した場合にWorkerを起動し直して再試行
+  const retryLoad = useCallback(() => {
+    setLoadError(null);
+    setIsCvLoaded(false);
+    setIsMasterReady(false);
+    setWorkerGeneration((generation) => generation + 1);
+  }, []);
 
-    const initializeMasterData = async () => {
-      console.log('マスターデータの初期化を開始...');
-      console.log('Preparing Database...');
-
+  // 進行中のリーディングセッションの復元
+  useEffect(() => {
+    const savedSession = localStorage.getItem(SPREAD_SESSION_KEY);
+    if (savedSession) {
       try {
-        // master-list.json を読み込む
-        const response = await fetch('/lib/master-list.json');
-        if (!response.ok) {
-          throw new Error(`master-list.json の読み込みに失敗しました: ${response.status}`);
-        }
-        const masterList: Record<string, string[]> = await response.json();
-
-        console.log(`マスターリストを読み込みました: ${Object.keys(masterList).length} 枚のカード`);
-
-        // 各カードの全画像をロード
-        const cardNames = Object.keys(masterList);
-        const cardLoadPromises = cardNames.map(async (cardName) => {
-          const imageFiles = masterList[cardName];
-          const imageDataArray = await loadCardImages(cardName, imageFiles);
-
-          if (imageDataArray.length > 0) {
-            const displayName = CARD_DISPLAY_NAMES[cardName] || cardName;
-            masterDataMapRef.current.set(cardName, {
-              images: imageDataArray,
-              displayName,
-            });
-
-            const totalKeypoints = imageDataArray.reduce((sum, img) => sum + img.keypoints.size(), 0);
-            console.log(`✓ ${displayName} (${cardName}): ${imageDataArray.length} 枚の画像、合計 ${totalKeypoints} 個の特徴点`);
-            return true;
-          } else {
-            console.warn(`⚠ ${cardName}: 有効な画像が1枚も見つかりませんでした`);
-            return false;
-          }
-        });
-
-        const results = await Promise.all(cardLoadPromises);
-        const successCount = results.filter((r) => r).length;
-        const totalCount = cardNames.length;
-
-        console.log(`マスターデータの初期化が完了しました: ${successCount}/${totalCount} 枚のカードをロード`);
-        
-        if (successCount > 0) {
-          setIsMasterReady(true);
-          console.log(`利用可能なカード: ${Array.from(masterDataMapRef.current.keys()).join(', ')}`);
-        } else {
-          console.error('マスターデータが1枚もロードできませんでした');
-        }
+        setSpreadSession(JSON.parse(savedSession));
       } catch (error) {
-        console.error('マスターデータの初期化エラー:', error);
+        sessionLog.warn('保存されたセッションを復元できませんでした:', error);
+        localStorage.removeItem(SPREAD_SESSION_KEY);
       }
-    };
-
-    initializeMasterData();
-  }, [isCvLoaded, createORB]);
+    }
+  }, []);
 
   // 保存済み画像の復元
   useEffect(() => {
@@ -389,7 +465,37 @@ export function useTarotReader(): UseTarotReaderReturn {
     if (saved) {
       savedImageRef.current = saved;
       setHasSavedImage(true);
-      // 復元時は解析を実行しない（ユーザーが再撮影するまで待つ）
+      // 復元時は解析を実行せず、履歴に保存した解析結果を表示する
+      const readingId = localStorage.getItem(CURRENT_READING_KEY);
+      if (readingId) {
+        getReading(readingId)
+          .then((reading) => {
+            if (!reading) {
+              return;
+            }
+            currentReadingRef.current = reading;
+            setCurrentReadingId(reading.id);
+            setBlacklist(reading.blacklist);
+            if (reading.mode === 'spread') {
+              setSpreadDetections(reading.cards.map((card) => ({
+                position: card.position,
+                rect: card.rect!,
+                image: card.image!,
+                candidates: card.candidates,
+                timing: card.timing,
+                deckId: card.deckId,
+              })));
+            } else {
+              const [card] = reading.cards;
+              setCandidates(card.candidates);
+              setMatchTiming(card.timing);
+              setMatchedDeckId(card.deckId);
+            }
+          })
+          .catch((error) => {
+            historyLog.warn('解析結果を復元できませんでした:', error);
+          });
+      }
     }
   }, []);
 
@@ -407,25 +513,11 @@ export function useTarotReader(): UseTarotReaderReturn {
   }, [hasSavedImage]);
 
   // 描画ループ
+  // ライブプレビューではフレームをWorkerに送るだけで、描画は検出結果を受け取った時に行う
   const drawLoop = useCallback(() => {
-    if (!canvasRef.current || !isCvLoaded) {
-      animationFrameRef.current = requestAnimationFrame(drawLoop);
-      return;
-    }
-
     const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-      animationFrameRef.current = requestAnimationFrame(drawLoop);
-      return;
-    }
-
-    // OpenCVが利用可能か確認
-    if (!window.cv || !window.cv.Canny || !window.cv.findContours) {
-      // 初回のみ警告を出力（ログが多すぎるのを防ぐ）
-      if (Math.random() < 0.01) {
-        console.warn('[描画ループ] OpenCVが利用できません');
-      }
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) {
       animationFrameRef.current = requestAnimationFrame(drawLoop);
       return;
     }
@@ -437,12 +529,8 @@ export function useTarotReader(): UseTarotReaderReturn {
         canvas.width = img.width;
         canvas.height = img.height;
         ctx.drawImage(img, 0, 0);
-        
-        // ダミーOCR解析（ループ実行）
-        // 実際のOCR処理はここに実装
       }
     } else if (videoRef.current && videoRef.current.readyState === 4) {
-      // ライブプレビュー（フィルタ適用）
       const video = videoRef.current;
       
       // video要素が設定されていて、ストリームが保持されている場合は設定
@@ -453,647 +541,352 @@ export function useTarotReader(): UseTarotReaderReturn {
       // ストリームが設定されているが再生されていない場合は再生を開始
       if (video.srcObject && video.paused && video.readyState >= 2) {
         video.play().catch((error) => {
-          console.warn('[カメラ] 再生エラー:', error);
+          cameraLog.warn('再生エラー:', error);
         });
       }
       
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-
-      // デバッグ: 描画ループが動作していることを確認（初回のみ）
-      if (Math.random() < 0.001) {
-        console.log('[描画ループ] 動作中...', {
-          videoWidth: video.videoWidth,
-          videoHeight: video.videoHeight,
-          canvasWidth: canvas.width,
-          canvasHeight: canvas.height,
-        });
-      }
-
-      try {
-        // OpenCVでフィルタ処理
-        if (!video || video.videoWidth === 0 || video.videoHeight === 0) {
-          // ビデオが準備できていない場合は通常描画
-          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-          animationFrameRef.current = requestAnimationFrame(drawLoop);
-          return;
-        }
-        
-        // デバッグ: 処理開始（50フレームに1回程度）
-        const shouldDebug = Math.random() < 0.02;
-        if (shouldDebug) {
-          console.log('[描画] OpenCV処理開始');
-        }
-        
-        // ビデオ要素を一度Canvasに描画してから読み込む（imreadがビデオ要素を直接認識できないため）
-        // 一時的なCanvasに描画
-        const tempCanvas = document.createElement('canvas');
-        tempCanvas.width = video.videoWidth;
-        tempCanvas.height = video.videoHeight;
-        const tempCtx = tempCanvas.getContext('2d');
-        if (!tempCtx) {
-          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-          animationFrameRef.current = requestAnimationFrame(drawLoop);
-          return;
-        }
-        tempCtx.drawImage(video, 0, 0, tempCanvas.width, tempCanvas.height);
-        
-        let src: any;
-        try {
-          src = window.cv.imread(tempCanvas);
-          if (shouldDebug) {
-            console.log('[描画] imread実行完了', { src: src ? '存在' : 'null', empty: src?.empty() });
-          }
-        } catch (imreadError) {
-          if (shouldDebug) {
-            console.error('[描画] imreadエラー:', imreadError);
-          }
-          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-          animationFrameRef.current = requestAnimationFrame(drawLoop);
-          return;
-        }
-        
-        if (!src || src.empty()) {
-          if (shouldDebug) {
-            console.warn('[描画] 画像の読み込みに失敗しました', { src: src ? '存在' : 'null', empty: src?.empty() });
-          }
-          src?.delete();
-          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-          animationFrameRef.current = requestAnimationFrame(drawLoop);
-          return;
-        }
-        
-        if (shouldDebug) {
-          console.log('[描画] 画像読み込み成功', { rows: src.rows, cols: src.cols });
-        }
-        
-        const gray = new window.cv.Mat();
-        
-        // グレースケール変換
-        window.cv.cvtColor(src, gray, window.cv.COLOR_RGBA2GRAY);
-        
-        if (shouldDebug) {
-          console.log('[描画] グレースケール変換完了');
-        }
-        
-        // 高コントラスト処理（コントラスト調整）
-        const contrast = new window.cv.Mat();
-        const alpha = 1.5; // コントラスト係数
-        const beta = 0; // 明るさ調整
-        gray.convertTo(contrast, -1, alpha, beta);
-        
-        if (shouldDebug) {
-          console.log('[描画] コントラスト調整完了');
-        }
-        
-        // Canvasに描画（グレースケールをRGBAに変換してから描画）
-        // グレースケール画像をRGBAに変換
-        const rgba = new window.cv.Mat();
-        window.cv.cvtColor(contrast, rgba, window.cv.COLOR_GRAY2RGBA);
-        
-        if (shouldDebug) {
-          console.log('[描画] RGBA変換完了');
-        }
-        
-        // Canvasに描画（imshowの代わりに、ImageDataを使用）
-        const imgData = new ImageData(
-          new Uint8ClampedArray(rgba.data),
-          rgba.cols,
-          rgba.rows
-        );
-        ctx.putImageData(imgData, 0, 0);
-        
-        if (shouldDebug) {
-          console.log('[描画] Canvas描画完了、輪郭検出に進みます');
-        }
-        
-        // メモリ解放
-        rgba.delete();
-        
-        // 輪郭検出処理（カードの矩形を検出）
-        let detectedRectData: DetectedRect | null = null;
-        
-        // デバッグ: 輪郭検出処理の開始を確認
-        if (shouldDebug) {
-          console.log('[輪郭検出] 処理開始', {
-            hasCanny: !!window.cv.Canny,
-            hasFindContours: !!window.cv.findContours,
-            contrastRows: contrast.rows,
-            contrastCols: contrast.cols,
+      if (!isCvLoaded) {
+        // OpenCV.jsのロード中はカメラ映像をそのまま表示
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      } else if (!workerBusyRef.current && video.videoWidth > 0 && video.videoHeight > 0) {
+        // Workerが処理中でなければ現在のフレームを送る（処理中のフレームは捨てる）
+        workerBusyRef.current = true;
+        const frameId = ++frameIdRef.current;
+        createImageBitmap(video)
+          .then((frame) => {
+            postToWorker({ type: 'detect', frameId, frame, multiCard: isMultiCardMode }, [frame]);
+          })
+          .catch((error) => {
+            workerBusyRef.current = false;
+            detectionLog.warn('フレームの取得に失敗しました:', error);
           });
-        }
-        
-        try {
-          // Cannyエッジ検出
-          const edges = new window.cv.Mat();
-          window.cv.Canny(contrast, edges, 50, 150, 3, false);
-          
-          // 膨張処理（dilate）でエッジを太くし、カードの輪郭を明確にする
-          const dilated = new window.cv.Mat();
-          const kernelSize = new window.cv.Size(3, 3);
-          const kernel = window.cv.getStructuringElement(window.cv.MORPH_RECT, kernelSize);
-          const anchor = new window.cv.Point(-1, -1);
-          window.cv.dilate(edges, dilated, kernel, anchor, 2, window.cv.BORDER_CONSTANT, window.cv.morphologyDefaultBorderValue());
-          
-          // デバッグ: Canny処理が完了したことを確認（50フレームに1回程度）
-          if (Math.random() < 0.02) {
-            console.log('[輪郭検出] Canny処理完了', {
-              edgesRows: edges.rows,
-              edgesCols: edges.cols,
-            });
-          }
-          
-          // 輪郭を検出（膨張処理後の画像を使用）
-          // OpenCV.jsでは MatVector を使用
-          const contours = new window.cv.MatVector();
-          const hierarchy = new window.cv.Mat();
-          window.cv.findContours(
-            dilated,
-            contours,
-            hierarchy,
-            window.cv.RETR_EXTERNAL,
-            window.cv.CHAIN_APPROX_SIMPLE
-          );
-          
-          // メモリ解放（後で行う）
-          
-          // デバッグ: 輪郭検出処理が実行されていることを確認（100フレームに1回程度）
-          if (Math.random() < 0.01) {
-            console.log('[輪郭検出] 処理実行中...');
-          }
-          
-          const totalContours = contours.size();
-          let maxArea = 0;
-          let largestContour: any = null;
-          const areaList: number[] = [];
-          let allMaxArea = 0; // 最小面積に関係なく最大の面積
-          
-          // ログ出力（検出時は常に、それ以外は50フレームに1回程度に変更）
-          const shouldLog = totalContours > 0 || Math.random() < 0.02;
-          
-          // 最大の輪郭を探す（すべての輪郭の面積を記録）
-          for (let i = 0; i < contours.size(); i++) {
-            const contour = contours.get(i);
-            const area = window.cv.contourArea(contour, false);
-            areaList.push(area);
-            
-            // すべての輪郭の中で最大の面積を記録
-            if (area > allMaxArea) {
-              allMaxArea = area;
-            }
-          }
-          
-          // 動的な最小面積を計算（最大面積の50%以上、または絶対値で500以上）
-          const minArea = Math.max(500, allMaxArea * 0.5);
-          
-          if (shouldLog) {
-            console.log(`[輪郭検出] 検出された輪郭数: ${totalContours}, 最小面積: ${minArea.toFixed(0)}, Canvasサイズ: ${canvas.width}x${canvas.height}`);
-          }
-          
-          // 最小面積を満たす最大の輪郭を探す
-          for (let i = 0; i < contours.size(); i++) {
-            const contour = contours.get(i);
-            const area = areaList[i];
-            
-            if (area > maxArea && area >= minArea) {
-              maxArea = area;
-              largestContour = contour;
-            }
-          }
-          
-          // デバッグ: 面積の分布を確認（常に出力）
-          if (shouldLog && areaList.length > 0) {
-            const sortedAreas = [...areaList].sort((a, b) => b - a);
-            console.log(`[輪郭検出] 面積の分布（上位5件）:`, sortedAreas.slice(0, 5).map(a => a.toFixed(0)).join(', '), `最大面積: ${allMaxArea.toFixed(0)}, 最小面積閾値: ${minArea.toFixed(0)}`);
-          }
-          
-          // 最大の輪郭が見つかった場合、矩形に近似
-          if (largestContour) {
-            console.log(`[輪郭検出] 最大輪郭を検出: 面積 ${maxArea.toFixed(0)} (最小面積: ${minArea.toFixed(0)})`);
-            
-            // approxPolyDPの出力はMat型
-            const approx = new window.cv.Mat();
-            // 参考コードに合わせてepsilonを0.01に設定（より厳密な近似）
-            const epsilon = 0.01 * window.cv.arcLength(largestContour, true);
-            window.cv.approxPolyDP(largestContour, approx, epsilon, true);
-            
-            // Matから頂点数を取得（Matのrowsが頂点数）
-            const approxSize = approx.rows;
-            console.log(`[輪郭検出] 近似後の頂点数: ${approxSize}, epsilon: ${epsilon.toFixed(1)}`);
-            
-            // 頂点が4つの場合のみ矩形として扱う（参考コードに合わせて厳密に）
-            if (approxSize === 4) {
-              const points: Array<{ x: number; y: number }> = [];
-              // Matから頂点を取得（各頂点はMatの行として格納されている）
-              // Matのデータは32bit signed integer配列としてアクセス可能
-              const data = approx.data32S; // または data32F (float)
-              
-              // 4つの頂点を取得
-              for (let i = 0; i < 4; i++) {
-                const x = data[i * 2];
-                const y = data[i * 2 + 1];
-                points.push({ x, y });
-              }
-              
-              // 矩形の形状チェック（カードの形状に近いか確認）
-              const isValidRectangle = checkRectangleShape(points);
-              
-              // 矩形の4点を左上、右上、右下、左下の順に並べ替え
-              if (isValidRectangle) {
-                const sortedPoints = sortRectanglePoints(points);
-                points.length = 0;
-                points.push(...sortedPoints);
-              }
-              
-              if (isValidRectangle) {
-                detectedRectData = {
-                  points,
-                  area: maxArea,
-                };
-                
-                // 矩形検出の安定性を追跡
-                rectDetectionCountRef.current += 1;
-                
-                // 矩形領域の画像を切り出して保存
-                const xs = points.map(p => p.x);
-                const ys = points.map(p => p.y);
-                const minX = Math.max(0, Math.floor(Math.min(...xs)));
-                const minY = Math.max(0, Math.floor(Math.min(...ys)));
-                const maxX = Math.min(canvas.width, Math.ceil(Math.max(...xs)));
-                const maxY = Math.min(canvas.height, Math.ceil(Math.max(...ys)));
-                const width = maxX - minX;
-                const height = maxY - minY;
-                
-                // 切り出し用の一時Canvasを作成
-                const cropCanvas = document.createElement('canvas');
-                cropCanvas.width = width;
-                cropCanvas.height = height;
-                const cropCtx = cropCanvas.getContext('2d');
-                
-                if (cropCtx && width > 0 && height > 0) {
-                  // 元のCanvasから領域を切り出し
-                  cropCtx.drawImage(
-                    canvas,
-                    minX, minY, width, height,
-                    0, 0, width, height
-                  );
-                  const croppedImageData = cropCanvas.toDataURL('image/png');
-                  setDetectedRectImage(croppedImageData);
-                  
-                  // 最後に検出された時刻を更新
-                  lastDetectionTimeRef.current = Date.now();
-                  
-                  // 既存のタイマーをクリア
-                  if (detectionTimeoutRef.current) {
-                    clearTimeout(detectionTimeoutRef.current);
-                  }
-                  
-                  // 一定時間（1秒）後に画像を無効化するタイマーを設定
-                  detectionTimeoutRef.current = setTimeout(() => {
-                    setDetectedRectImage(null);
-                    lastDetectionTimeRef.current = null;
-                    detectionTimeoutRef.current = null;
-                    console.log('[矩形検出] 一定時間検出されなかったため、画像を無効化しました');
-                  }, 1000); // 1秒
-                  
-                  console.log(`[矩形検出成功] 頂点:`, points, `面積: ${maxArea.toFixed(0)}, 連続検出: ${rectDetectionCountRef.current}回, 切り出し画像: ${width}x${height}`);
-                } else {
-                  console.warn('[矩形検出] 領域画像の切り出しに失敗しました');
-                }
-              } else {
-                console.log(`[矩形検出失敗] 形状チェックに失敗: 頂点数は4つだが、矩形の形状ではない`);
-              }
-              
-              // 矩形をCanvas上に緑色の枠線で描画
-              ctx.strokeStyle = '#00ff00';
-              ctx.lineWidth = 3;
-              ctx.beginPath();
-              ctx.moveTo(points[0].x, points[0].y);
-              for (let i = 1; i < points.length; i++) {
-                ctx.lineTo(points[i].x, points[i].y);
-              }
-              ctx.closePath();
-              ctx.stroke();
-            } else {
-              console.log(`[矩形検出失敗] 頂点数が4つではありません: ${approxSize}`);
-              rectDetectionCountRef.current = 0;
-            }
-            
-            approx.delete();
-          } else {
-            if (totalContours > 0) {
-              console.log(`[矩形検出失敗] 最小面積を満たす輪郭が見つかりませんでした`);
-            }
-            rectDetectionCountRef.current = 0;
-            // 矩形が検出されなかった場合でも、一定時間内であれば画像を保持
-            // （タイマーは既に設定されているため、そのまま維持）
-          }
-          
-          // メモリ解放
-          edges.delete();
-          dilated.delete();
-          kernel.delete();
-          contours.delete();
-          hierarchy.delete();
-        } catch (contourError) {
-          // 輪郭検出エラーは無視（処理を続行）
-          // エラーログは常に出力（問題の特定のため）
-          if (contourError instanceof Error) {
-            console.error('[輪郭検出エラー]', contourError.message, contourError.stack);
-          } else {
-            console.error('[輪郭検出エラー]', contourError);
-          }
-          rectDetectionCountRef.current = 0;
-        }
-        
-        // detectedRectステートを更新
-        setDetectedRect(detectedRectData);
-        
-        // 矩形が検出されなかった場合でも、一定時間内であれば画像を保持
-        // （タイマーで自動的にクリアされるため、ここでは何もしない）
-        
-        // メモリ解放
-        src.delete();
-        gray.delete();
-        contrast.delete();
-      } catch (error) {
-        // OpenCV処理が失敗した場合は通常描画
-        // エラーログは常に出力（問題の特定のため）
-        if (error instanceof Error) {
-          // "Please input the valid canvas or img id" エラーは無視（imshow関連のエラー）
-          if (!error.message.includes('canvas or img id')) {
-            console.warn('[描画エラー]', error.message, error.stack);
-          }
-        } else {
-          console.warn('[描画エラー]', error);
-        }
-        try {
-          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-        } catch (drawError) {
-          console.error('[Canvas描画エラー]', drawError);
-        }
-        setDetectedRect(null);
-        rectDetectionCountRef.current = 0;
       }
     }
 
     animationFrameRef.current = requestAnimationFrame(drawLoop);
-  }, [isCvLoaded, hasSavedImage]);
+  }, [isCvLoaded, hasSavedImage, isMultiCardMode, postToWorker, cameraStreamRef]);
 
   // 描画ループの開始/停止
   useEffect(() => {
-    if (isCvLoaded) {
-      drawLoop();
-    }
+    drawLoop();
 
     return () => {
       if (animationFrameRef.current !== null) {
         cancelAnimationFrame(animationFrameRef.current);
       }
     };
-  }, [isCvLoaded, drawLoop]);
+  }, [drawLoop]);
 
-  // カメラストリームの開始
-  useEffect(() => {
-    if (!hasSavedImage) {
-      navigator.mediaDevices
-        .getUserMedia({ video: { facingMode: 'environment' } })
-        .then((stream) => {
-          cameraStreamRef.current = stream;
-          if (videoRef.current) {
-            videoRef.current.srcObject = stream;
-          }
-        })
-        .catch((error) => {
-          console.error('カメラアクセスエラー:', error);
-        });
+  // Workerからの検出結果を描画し、検出状態と自動撮影の判定を更新
+  const handleDetectResult = useCallback((result: Extract<CvWorkerResponse, { type: 'detectResult' }>) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    // 撮影後に届いた結果は破棄
+    if (!canvas || !ctx || hasSavedImage) {
+      result.preview.close();
+      return;
+    }
+
+    frameDiagnosticsRef.current = result.diagnostics;
+    frameDiagnosticsListenersRef.current.forEach((listener) => listener());
+
+    // コントラスト強調済みのプレビューを描画
+    canvas.width = result.preview.width;
+    canvas.height = result.preview.height;
+    ctx.drawImage(result.preview, 0, 0);
+    result.preview.close();
+
+    const { rects, images } = result;
+    let detectedRectData: DetectedRect | null = null;
+
+    if (isMultiCardMode) {
+      drawNumberedQuads(ctx, rects);
+      
+      setDetectedRects(rects);
+      
+      if (rects.length > 0 && images.length === rects.length) {
+        setDetectedRectImages(images);
+        detectedRectImagesSourceRef.current = rects;
+        
+        // 単一カードモードと同様に、一定時間（1秒）検出が途切れたら画像を無効化
+        if (detectionTimeoutRef.current) {
+          clearTimeout(detectionTimeoutRef.current);
+        }
+        detectionTimeoutRef.current = setTimeout(() => {
+          setDetectedRectImages([]);
+          detectedRectImagesSourceRef.current = [];
+          detectionTimeoutRef.current = null;
+        }, 1000);
+      }
+    } else if (rects.length > 0) {
+      // 追跡中の矩形: 観測中は緑の実線、途切れを補完中は黄色の破線で描画
+      detectedRectData = rects[0];
+      drawQuad(ctx, detectedRectData.points, result.isTrackObserved ? '#00ff00' : '#ffff00', !result.isTrackObserved);
+      if (images.length > 0) {
+        setDetectedRectImage(images[0]);
+        detectedRectImageSourceRef.current = detectedRectData;
+      }
+    } else if (result.trackLost) {
+      // 補完できる時間を超えて検出されなかったため、画像を無効化
+      setDetectedRectImage(null);
+      detectedRectImageSourceRef.current = null;
+      detectionLog.debug('一定時間検出されなかったため、画像を無効化しました');
+    }
+    
+    // 自動撮影: 検出された四角形が一定フレーム数かつ一定時間、ほぼ動かなければ撮影する
+    // トラッカーが検出の途切れを補完しているフレームは、カードが写っていない可能性があるため数えない
+    const isObserved = isMultiCardMode || result.isTrackObserved;
+    const frameQuads = rects.map((rect) => rect.points);
+    const tolerance = Math.hypot(canvas.width, canvas.height) * autoCaptureTolerance;
+    const previousQuads = lastFrameQuadsRef.current;
+    const isStable = frameQuads.length > 0 &&
+      previousQuads.length === frameQuads.length &&
+      frameQuads.every((quad, i) => isQuadStable(previousQuads[i], quad, tolerance));
+    lastFrameQuadsRef.current = frameQuads;
+    
+    const now = Date.now();
+    if (frameQuads.length === 0 || !isObserved) {
+      rectDetectionCountRef.current = 0;
+      stableSinceRef.current = null;
+    } else if (!isStable || stableSinceRef.current === null) {
+      // 初回検出、または頂点が動いた場合は計測をやり直す
+      rectDetectionCountRef.current = 1;
+      stableSinceRef.current = now;
     } else {
-      // 画像保存時はストリームを停止
-      if (cameraStreamRef.current) {
-        cameraStreamRef.current.getTracks().forEach((track) => track.stop());
-        cameraStreamRef.current = null;
+      rectDetectionCountRef.current += 1;
+    }
+    
+    if (isAutoCaptureEnabled && stableSinceRef.current !== null) {
+      const elapsed = now - stableSinceRef.current;
+      const progress = Math.min(
+        rectDetectionCountRef.current / autoCaptureStableFrames,
+        elapsed / autoCaptureStableMs,
+        1
+      );
+      drawAutoCaptureProgress(ctx, quadCenter(frameQuads.flat()), progress, autoCaptureStableMs - elapsed);
+      
+      if (progress >= 1) {
+        captureLog.info(`自動撮影: ${rectDetectionCountRef.current} フレーム (${elapsed}ms) 安定したため撮影します`);
+        rectDetectionCountRef.current = 0;
+        stableSinceRef.current = null;
+        captureImageRef.current?.();
       }
     }
-
-    return () => {
-      if (cameraStreamRef.current) {
-        cameraStreamRef.current.getTracks().forEach((track) => track.stop());
-        cameraStreamRef.current = null;
+    
+    // detectedRectステートを更新
+    setDetectedRect(detectedRectData);
+  }, [
+    hasSavedImage,
+    isMultiCardMode,
+    isAutoCaptureEnabled,
+    autoCaptureStableFrames,
+    autoCaptureStableMs,
+    autoCaptureTolerance,
+  ]);
+
+  // Workerからのメッセージ処理
+  const handleWorkerMessage = useCallback((message: CvWorkerResponse) => {
+    switch (message.type) {
+      case 'cvReady':
+        setIsCvLoaded(true);
+        loadingLog.info('OpenCV.jsの準備完了');
+        break;
+      case 'masterReady':
+        setIsMasterReady(true);
+        deckRef.current = message.deck;
+        setDeckState(message.deck);
+        setDecks(message.decks);
+        loadingLog.info(`マスターデータの準備完了: ${message.cardCount} 枚のカード (${message.featureStrategy}, デッキ: ${message.deck})`);
+        break;
+      case 'initError':
+        setLoadError({ stage: message.stage, message: message.message });
+        break;
+      case 'detectResult':
+        workerBusyRef.current = false;
+        handleDetectResult(message);
+        break;
+      case 'detectError':
+        workerBusyRef.current = false;
+        detectionLog.warn('フレームの検出に失敗しました:', message.message);
+        setDetectedRect(null);
+        rectDetectionCountRef.current = 0;
+        break;
+      case 'matchResult':
+      case 'matchError': {
+        const pending = pendingMatchesRef.current.get(message.requestId);
+        pendingMatchesRef.current.delete(message.requestId);
+        if (message.type === 'matchResult') {
+          pending?.resolve(message.results);
+        } else {
+          pending?.reject(new Error(message.message));
+        }
+        break;
       }
-      if (videoRef.current && videoRef.current.srcObject) {
-        const stream = videoRef.current.srcObject as MediaStream;
-        stream.getTracks().forEach((track) => track.stop());
-        videoRef.current.srcObject = null;
+      case 'log':
+        recordLogEntry(message.entry);
+        break;
+      case 'detectStillResult':
+      case 'detectStillError': {
+        const pending = pendingStillDetectionsRef.current.get(message.requestId);
+        pendingStillDetectionsRef.current.delete(message.requestId);
+        if (message.type === 'detectStillResult') {
+          pending?.resolve({ rects: message.rects, images: message.images });
+        } else {
+          pending?.reject(new Error(message.message));
+        }
+        break;
       }
+    }
+  }, [handleDetectResult]);
+
+  useEffect(() => {
+    handleWorkerMessageRef.current = handleWorkerMessage;
+  }, [handleWorkerMessage]);
+
+  // 画像をWorkerに送ってマッチングし、画像ごとにスコア順の候補を受け取る
+  // frameRotationsは画像ごとの撮影時の回転角（切り出し元の矩形から求める。画像全体は0）
+  const matchInWorker = useCallback(async (
+    imageElements: Array<HTMLImageElement | HTMLCanvasElement>,
+    frameRotations: number[]
+  ): Promise<DeckMatchResult[]> => {
+    const images = await Promise.all(imageElements.map((element) => createImageBitmap(element)));
+    const requestId = ++requestIdRef.current;
+
+    return new Promise((resolve, reject) => {
+      pendingMatchesRef.current.set(requestId, { resolve, reject });
+      postToWorker({ type: 'match', requestId, images, frameRotations, prefilterTopK }, images);
+    });
+  }, [postToWorker, prefilterTopK]);
+
+  // 解析結果をリーディングとして履歴に保存し、撮影中のリーディングにする
+  // リーディングセッション中は、スプレッドに配置済みのカードを除いて選び、空いている位置に割り当てる
+  // 1回の撮影の中でも、先に選ばれたカードは以降のカードの候補から除く
+  // 履歴に保存できなかった場合は、存在しないリーディングを指さないようスプレッドの位置を割り当てない
+  const recordReading = useCallback(async (mode: ReadingRecord['mode'], image: string, cards: Omit<ReadingCard, 'chosen'>[]) => {
+    const id = crypto.randomUUID();
+    const excludedCardIds = placedCardIds(spreadPlacements, null);
+    const assignment = spreadSession && assignReading(spreadSession, spreadPlacements, id, cards.length);
+
+    const reading: ReadingRecord = {
+      id,
+      createdAt: Date.now(),
+      mode,
+      image,
+      cards: cards.map((card, i) => {
+        const position = assignment?.positions[i];
+        const chosen = chooseCard(card.candidates, excludedCardIds, thresholds);
+        if (chosen) {
+          excludedCardIds.push(chosen.cardId);
+        }
+        return {
+          ...card,
+          candidates: card.candidates.slice(0, READING_CANDIDATE_LIMIT),
+          chosen,
+          ...(position != null && { spreadPosition: spreadSession!.spread.positions[position].label }),
+        };
+      }),
+      blacklist: [],
+      note: '',
+      ...(spreadSession && { spread: { sessionId: spreadSession.id, name: spreadSession.spread.name } }),
     };
-  }, [hasSavedImage]);
+    currentReadingRef.current = reading;
+    setCurrentReadingId(reading.id);
+    localStorage.setItem(CURRENT_READING_KEY, reading.id);
+    const isSaved = await putReading(reading);
 
-  // 画像マッチング処理（フォルダ内全画像と比較し、最高スコアを採用）
-  const performMatching = useCallback(async (imageElement: HTMLImageElement | HTMLCanvasElement) => {
-    if (!isCvLoaded || masterDataMapRef.current.size === 0) {
-      console.warn('OpenCVがロードされていないか、マスターデータが初期化されていません');
+    if (!assignment) {
+      return;
+    }
+    if (!isSaved) {
+      sessionLog.warn('リーディングを保存できなかったため、スプレッドの位置に割り当てません');
+      return;
+    }
+    setSpreadSession(assignment.session);
+    persistSpreadSession(assignment.session);
+  }, [thresholds, putReading, spreadSession, spreadPlacements]);
+
+  // 単一カードのマッチングを実行して候補を更新（sourceRectは切り出し元の矩形、画像全体の場合はnull）
+  const performMatching = useCallback(async (
+    imageElement: HTMLImageElement | HTMLCanvasElement,
+    capturedImage: string,
+    sourceRect: DetectedRect | null
+  ) => {
+    if (!isCvLoaded || !isMasterReady) {
+      matchingLog.warn('OpenCVがロードされていないか、マスターデータが初期化されていません');
       return;
     }
 
     setIsAnalyzing(true);
-
-    let src: any = null;
-    let gray: any = null;
-    let orb: any = null;
-    let keypoints: any = null;
-    let descriptors: any = null;
-    let matcher: any = null;
-
     try {
-      // 撮影画像の特徴量を抽出
-      src = window.cv.imread(imageElement);
-      gray = new window.cv.Mat();
-      window.cv.cvtColor(src, gray, window.cv.COLOR_RGBA2GRAY);
-
-      orb = createORB(500);
-      keypoints = new window.cv.KeyPointVector();
-      descriptors = new window.cv.Mat();
-
-      orb.detectAndCompute(gray, new window.cv.Mat(), keypoints, descriptors);
-
-      // BFMatcherでマッチング（knnMatchを使用）
-      matcher = createBFMatcher(window.cv.NORM_HAMMING, false);
-      const matchResults: Map<string, number> = new Map();
-      const matchDetails: Map<string, { score: number; imageIndex: number; goodMatches: number; totalKeypoints: number }> = new Map();
-
-      // すべてのマスターデータと比較
-      for (const [cardName, master] of masterDataMapRef.current.entries()) {
-        let maxScore = 0; // このカードフォルダ内での最高スコア（正規化済み）
-        let bestImageIndex = -1;
-        let bestGoodMatches = 0;
-        let bestTotalKeypoints = 0;
-
-        // このカードの全マスター画像と比較
-        for (let imgIndex = 0; imgIndex < master.images.length; imgIndex++) {
-          const masterImage = master.images[imgIndex];
-          const knnMatches = new window.cv.DMatchVectorVector();
-          
-          // knnMatch (k=2) を使用
-          matcher.knnMatch(descriptors, masterImage.descriptors, knnMatches, 2);
-
-          // Lowe's Ratio Test を適用
-          const goodMatches: any[] = [];
-          const matchCount = knnMatches.size();
-          
-          for (let i = 0; i < matchCount; i++) {
-            const matchPair = knnMatches.get(i);
-            if (matchPair.size() === 2) {
-              const first = matchPair.get(0);
-              const second = matchPair.get(1);
-              
-              // Lowe's Ratio Test: distance1 < 0.7 * distance2
-              if (first.distance < 0.7 * second.distance) {
-                goodMatches.push(first);
-              }
-            } else if (matchPair.size() === 1) {
-              // 2番目のマッチが見つからない場合は、1番目のマッチのみを使用
-              const first = matchPair.get(0);
-              goodMatches.push(first);
-            }
-            
-            matchPair.delete();
-          }
-
-          const goodMatchCount = goodMatches.length;
-          const masterKeypointCount = masterImage.keypoints.size();
-          
-          // ホモグラフィ変換による検証（Good Matchesが10点以上の場合）
-          let homographyScore = 1.0; // デフォルトは減点なし
-          if (goodMatchCount >= 10) {
-            try {
-              // マッチした特徴点の座標を取得
-              const srcPointsData: number[] = [];
-              const dstPointsData: number[] = [];
-              
-              for (const match of goodMatches) {
-                const queryIdx = match.queryIdx;
-                const trainIdx = match.trainIdx;
-                
-                if (queryIdx < keypoints.size() && trainIdx < masterImage.keypoints.size()) {
-                  const queryKp = keypoints.get(queryIdx);
-                  const trainKp = masterImage.keypoints.get(trainIdx);
-                  
-                  srcPointsData.push(queryKp.pt.x, queryKp.pt.y);
-                  dstPointsData.push(trainKp.pt.x, trainKp.pt.y);
-                }
-              }
-              
-              if (srcPointsData.length >= 8 && dstPointsData.length >= 8) {
-                const srcPointsMat = window.cv.matFromArray(
-                  srcPointsData.length / 2, 1, window.cv.CV_32FC2, srcPointsData
-                );
-                const dstPointsMat = window.cv.matFromArray(
-                  dstPointsData.length / 2, 1, window.cv.CV_32FC2, dstPointsData
-                );
-                
-                // ホモグラフィ変換を計算
-                const homography = window.cv.findHomography(
-                  srcPointsMat, dstPointsMat,
-                  window.cv.RANSAC, 5.0
-                );
-                
-                if (homography && !homography.empty()) {
-                  // ホモグラフィ変換が成功した場合はスコアを維持
-                  homographyScore = 1.0;
-                } else {
-                  // ホモグラフィ変換が失敗した場合はスコアを大幅に下げる
-                  homographyScore = 0.3;
-                }
-                
-                srcPointsMat.delete();
-                dstPointsMat.delete();
-                if (homography) homography.delete();
-              }
-            } catch (error) {
-              // ホモグラフィ変換の計算に失敗した場合は減点
-              console.warn(`[ホモグラフィ変換] ${cardName} 画像${imgIndex} の計算に失敗:`, error);
-              homographyScore = 0.5;
-            }
-          }
-
-          // 正規化スコアを計算: (Good Matches数 / マスター画像の特徴点総数) * 100
-          const normalizedScore = masterKeypointCount > 0
-            ? (goodMatchCount / masterKeypointCount) * 100 * homographyScore
-            : 0;
-          
-          console.log(`  [${cardName}] 画像${imgIndex + 1}/${master.images.length}: 
-            - 総マッチ数: ${matchCount}
-            - Ratio Test後: ${goodMatchCount} matches
-            - マスター特徴点数: ${masterKeypointCount}
-            - 正規化スコア: ${normalizedScore.toFixed(2)}%
-            - ホモグラフィ検証: ${homographyScore === 1.0 ? 'OK' : 'NG (減点)'}`);
-          
-          // この画像とのスコアが最高スコアを上回る場合は更新
-          if (normalizedScore > maxScore) {
-            maxScore = normalizedScore;
-            bestImageIndex = imgIndex;
-            bestGoodMatches = goodMatchCount;
-            bestTotalKeypoints = masterKeypointCount;
-          }
-
-          knnMatches.delete();
-        }
-
-        // このカードの最終スコアとして最高スコアを採用
-        matchResults.set(cardName, maxScore);
-        matchDetails.set(cardName, {
-          score: maxScore,
-          imageIndex: bestImageIndex,
-          goodMatches: bestGoodMatches,
-          totalKeypoints: bestTotalKeypoints,
-        });
-        
-        console.log(`✓ ${master.displayName} (${cardName}): 
-          最高スコア ${maxScore.toFixed(2)}% 
-          (画像${bestImageIndex + 1}/${master.images.length}が最高, 
-          Good Matches: ${bestGoodMatches}, 
-          特徴点数: ${bestTotalKeypoints})`);
-      }
-
-      // スコアが高い順にソートしてCandidate配列に変換
-      const sortedCandidates: Candidate[] = Array.from(matchResults.entries())
-        .sort(([, a], [, b]) => b - a)
-        .map(([cardName, score]) => {
-          const master = masterDataMapRef.current.get(cardName);
-          return {
-            cardName: master?.displayName || cardName,
-            matchCount: Math.round(score * 100) / 100, // 小数点2桁で表示
-          };
-        });
+      const [result] = await matchInWorker([imageElement], [sourceRect ? canonicalCardRotation(sourceRect.points) : 0]);
+      setCandidates(result.candidates);
+      setMatchTiming(result.timing);
+      setMatchedDeckId(result.deckId);
+      await recordReading('single', capturedImage, [{
+        position: 1,
+        rect: null,
+        image: null,
+        candidates: result.candidates,
+        timing: result.timing,
+        deckId: result.deckId,
+      }]);
+    } catch (error) {
+      matchingLog.error('マッチング処理エラー:', error);
+      setCandidates([]);
+      setMatchTiming(null);
+      setMatchedDeckId(null);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  }, [isCvLoaded, isMasterReady, matchInWorker, recordReading]);
 
-      console.log('\n=== マッチング結果サマリー ===');
-      console.log('スコア順位（正規化済み）:');
-      sortedCandidates.forEach((candidate, index) => {
-        const cardName = Array.from(masterDataMapRef.current.keys()).find(
-          name => masterDataMapRef.current.get(name)?.displayName === candidate.cardName
-        );
-        if (cardName) {
-          const details = matchDetails.get(cardName);
-          console.log(`  ${index + 1}. ${candidate.cardName}: ${candidate.matchCount.toFixed(2)}% ${details ? `(Good Matches: ${details.goodMatches}, 特徴点数: ${details.totalKeypoints})` : ''}`);
-        }
-      });
-      console.log('============================\n');
+  // 複数カードのマッチングを実行（カードごとにperformMatchingと同じ処理を行う）
+  const performSpreadMatching = useCallback(async (rects: DetectedRect[], images: string[], capturedImage: string) => {
+    if (!isCvLoaded || !isMasterReady) {
+      matchingLog.warn('OpenCVがロードされていないか、マスターデータが初期化されていません');
+      return;
+    }
 
-      setCandidates(sortedCandidates);
+    setIsAnalyzing(true);
+    try {
+      matchingLog.info(`${images.length} 枚のカードを解析します`);
+      const imageElements = await Promise.all(images.map(loadImage));
+      const results = await matchInWorker(imageElements, rects.map((rect) => canonicalCardRotation(rect.points)));
+      const detections = results.map((result, i) => ({
+        position: i + 1,
+        rect: rects[i],
+        image: images[i],
+        candidates: result.candidates,
+        timing: result.timing,
+        deckId: result.deckId,
+      }));
+      setSpreadDetections(detections);
+      await recordReading('spread', capturedImage, detections);
     } catch (error) {
-      console.error('マッチング処理エラー:', error);
-      setCandidates([]);
+      matchingLog.error('複数カードのマッチング処理エラー:', error);
+      setSpreadDetections([]);
     } finally {
-      // メモリ解放（エラーが発生しても確実に解放）
-      if (src) src.delete();
-      if (gray) gray.delete();
-      if (orb) orb.delete();
-      if (keypoints) keypoints.delete();
-      if (descriptors) descriptors.delete();
-      if (matcher) matcher.delete();
       setIsAnalyzing(false);
     }
-  }, [isCvLoaded, createORB, createBFMatcher]);
+  }, [isCvLoaded, isMasterReady, matchInWorker, recordReading]);
+
+  // 撮影した画像を保存して表示し、カメラを止める
+  const showCapturedImage = useCallback((imageData: string) => {
+    // localStorageに保存
+    localStorage.setItem(STORAGE_KEY, imageData);
+    savedImageRef.current = imageData;
+    
+    // 状態更新
+    setHasSavedImage(true);
+    
+    // カメラストリームを停止
+    if (videoRef.current && videoRef.current.srcObject) {
+      const stream = videoRef.current.srcObject as MediaStream;
+      stream.getTracks().forEach((track) => track.stop());
+    }
+  }, []);
 
   // 画像を撮影（小窓の画像をそのまま使用）
   const captureImage = useCallback(() => {
@@ -1101,110 +894,423 @@ export function useTarotReader(): UseTarotReaderReturn {
 
     const canvas = canvasRef.current;
     let imageData: string;
+    // 複数カードモードでカードが検出されている場合は、各カードの切り出し画像を個別に解析する
+    const isSpreadCapture = isMultiCardMode && detectedRectImages.length > 0;
 
-    // 小窓に表示されている画像（detectedRectImage）がある場合はそれを使用
-    if (detectedRectImage) {
+    if (isSpreadCapture) {
+      // 保存・表示用には全体画像（番号付きの枠線を含む）を使用
+      imageData = canvas.toDataURL('image/png');
+      captureLog.info(`複数カードモード: ${detectedRectImages.length} 枚のカードを解析します`);
+    } else if (detectedRectImage) {
+      // 小窓に表示されている画像（detectedRectImage）がある場合はそれを使用
       imageData = detectedRectImage;
-      console.log('[撮影] 小窓の画像をそのまま使用します');
+      captureLog.debug('小窓の画像をそのまま使用します');
     } else {
       // 矩形が検出されていない場合は、現在のCanvas全体を使用
       imageData = canvas.toDataURL('image/png');
-      console.log('[撮影] 矩形が検出されていないため、全体画像を使用します');
+      captureLog.debug('矩形が検出されていないため、全体画像を使用します');
     }
     
-    // localStorageに保存
-    localStorage.setItem(STORAGE_KEY, imageData);
-    savedImageRef.current = imageData;
-    
-    // 状態更新
-    setHasSavedImage(true);
-    
-    // カメラストリームを停止
-    if (videoRef.current && videoRef.current.srcObject) {
-      const stream = videoRef.current.srcObject as MediaStream;
-      stream.getTracks().forEach((track) => track.stop());
+    showCapturedImage(imageData);
+
+    if (isSpreadCapture) {
+      performSpreadMatching(detectedRectImagesSourceRef.current, detectedRectImages, imageData);
+      return;
     }
 
     // 画像をロードしてマッチング処理を実行
+    const sourceRect = detectedRectImage ? detectedRectImageSourceRef.current : null;
     const img = new Image();
     img.onload = () => {
-      performMatching(img);
+      performMatching(img, imageData, sourceRect);
     };
     img.src = imageData;
-  }, [isCvLoaded, performMatching, detectedRectImage]);
+  }, [isCvLoaded, showCapturedImage, performMatching, performSpreadMatching, detectedRectImage, detectedRectImages, isMultiCardMode]);
+
+  useEffect(() => {
+    captureImageRef.current = captureImage;
+  }, [captureImage]);
+
+  // 静止画をWorkerに送ってカードを検出し、切り出し画像を受け取る
+  const detectStillInWorker = useCallback(async (source: HTMLCanvasElement): Promise<StillDetection> => {
+    const image = await createImageBitmap(source);
+    const requestId = ++requestIdRef.current;
+
+    return new Promise((resolve, reject) => {
+      pendingStillDetectionsRef.current.set(requestId, { resolve, reject });
+      postToWorker({ type: 'detectStill', requestId, image, multiCard: isMultiCardMode }, [image]);
+    });
+  }, [postToWorker, isMultiCardMode]);
+
+  // 画像ファイル（アップロード・ドラッグ&ドロップ・貼り付け）からカードを検出して解析
+  // 撮影と同様に、単一カードは切り出し画像（検出できなければ画像全体）、複数カードはカードごとの切り出し画像を解析する
+  const analyzeImageFile = useCallback(async (file: Blob) => {
+    if (!isCvLoaded || !isMasterReady) {
+      captureLog.warn('OpenCVがロードされていないか、マスターデータが初期化されていません');
+      return false;
+    }
+    if (!file.type.startsWith('image/')) {
+      captureLog.warn(`画像ファイルではありません: ${file.type || '種類不明'}`);
+      return false;
+    }
+
+    setIsAnalyzing(true);
+    const objectUrl = URL.createObjectURL(file);
+    try {
+      const source = await loadImage(objectUrl);
+      const { width, height } = stillImageSize(source.naturalWidth, source.naturalHeight);
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        throw new Error('Canvasの2Dコンテキストを取得できません');
+      }
+      ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+      const { rects, images } = await detectStillInWorker(canvas);
+      const isSpreadCapture = isMultiCardMode && images.length > 0;
+      let imageData: string;
+      if (isSpreadCapture) {
+        // 撮影時と同様に、保存・表示用には番号付きの枠線を描いた全体画像を使用
+        drawNumberedQuads(ctx, rects);
+        imageData = canvas.toDataURL('image/jpeg', STILL_IMAGE_JPEG_QUALITY);
+        captureLog.info(`画像ファイル（複数カードモード）: ${images.length} 枚のカードを解析します`);
+      } else if (images.length > 0) {
+        imageData = images[0];
+        captureLog.debug('画像ファイル: 検出したカードの切り出し画像を使用します');
+      } else {
+        imageData = canvas.toDataURL('image/jpeg', STILL_IMAGE_JPEG_QUALITY);
+        captureLog.debug('画像ファイル: 矩形が検出されないため、画像全体を使用します');
+      }
+
+      // 表示中の画像がある場合に備えて前回の解析結果をクリアし、読み込んだ画像を撮影画像として表示
+      setCandidates([]);
+      setMatchTiming(null);
+      setMatchedDeckId(null);
+      setBlacklist([]);
+      setSpreadDetections([]);
+      const img = await loadImage(imageData);
+      savedImageElementRef.current = img;
+      showCapturedImage(imageData);
+
+      if (isSpreadCapture) {
+        await performSpreadMatching(rects, images, imageData);
+      } else {
+        await performMatching(img, imageData, images.length > 0 ? rects[0] : null);
+      }
+      return true;
+    } catch (error) {
+      captureLog.error('画像の解析に失敗しました:', error);
+      return false;
+    } finally {
+      URL.revokeObjectURL(objectUrl);
+      setIsAnalyzing(false);
+    }
+  }, [
+    isCvLoaded,
+    isMasterReady,
+    isMultiCardMode,
+    detectStillInWorker,
+    showCapturedImage,
+    performMatching,
+    performSpreadMatching,
+  ]);
 
   // 画像を削除
   const deleteImage = useCallback(() => {
     localStorage.removeItem(STORAGE_KEY);
+    localStorage.removeItem(CURRENT_READING_KEY);
+    currentReadingRef.current = null;
+    setCurrentReadingId(null);
     savedImageRef.current = null;
     savedImageElementRef.current = null;
     setHasSavedImage(false);
     setCandidates([]);
+    setMatchTiming(null);
+    setMatchedDeckId(null);
     setBlacklist([]);
     setDetectedRectImage(null);
+    detectedRectImageSourceRef.current = null;
+    setSpreadDetections([]);
+    setDetectedRectImages([]);
+    detectedRectImagesSourceRef.current = [];
     
-    // タイマーもクリア
+    // タイマーとトラッカーもクリア
     if (detectionTimeoutRef.current) {
       clearTimeout(detectionTimeoutRef.current);
       detectionTimeoutRef.current = null;
     }
-    lastDetectionTimeRef.current = null;
+    postToWorker({ type: 'resetTracker' });
+  }, [postToWorker]);
+
+  // ブラックリストに追加（カードIDで管理）
+  // 撮影中のリーディングにも反映し、選ばれたカードを繰り上がった候補で保存し直す
+  const addToBlacklist = useCallback((cardId: string) => {
+    if (blacklist.includes(cardId)) {
+      return;
+    }
+    const nextBlacklist = [...blacklist, cardId];
+    setBlacklist(nextBlacklist);
+
+    const reading = currentReadingRef.current;
+    if (reading) {
+      // 撮影時と同様に、先に選ばれたカードは以降のカードの候補から除く
+      const excludedCardIds = [...nextBlacklist, ...sessionExcludedCardIds];
+      const updated: ReadingRecord = {
+        ...reading,
+        blacklist: nextBlacklist,
+        cards: reading.cards.map((card) => {
+          const chosen = chooseCard(card.candidates, excludedCardIds, thresholds);
+          if (chosen) {
+            excludedCardIds.push(chosen.cardId);
+          }
+          return { ...card, chosen };
+        }),
+      };
+      currentReadingRef.current = updated;
+      putReading(updated);
+    }
+  }, [blacklist, sessionExcludedCardIds, thresholds, putReading]);
+
+  // 履歴からリーディングを削除（撮影中のリーディングの場合は以降の変更を保存しない）
+  const deleteReading = useCallback(async (id: string) => {
+    if (currentReadingRef.current?.id === id) {
+      currentReadingRef.current = null;
+      setCurrentReadingId(null);
+      localStorage.removeItem(CURRENT_READING_KEY);
+    }
+    await removeReading(id);
+  }, [removeReading]);
+
+  // リーディングのメモ（相談者名など）を更新
+  const updateReadingNote = useCallback(async (id: string, note: string) => {
+    const reading = currentReadingRef.current?.id === id ? currentReadingRef.current : readings.find((r) => r.id === id);
+    if (!reading || reading.note === note) {
+      return;
+    }
+    const updated = { ...reading, note };
+    if (currentReadingRef.current?.id === id) {
+      currentReadingRef.current = updated;
+    }
+    await putReading(updated);
+  }, [readings, putReading]);
+
+  // 自動撮影のON/OFF（計測中の安定状態はリセット）
+  const setAutoCaptureEnabled = useCallback((enabled: boolean) => {
+    setIsAutoCaptureEnabled(enabled);
+    rectDetectionCountRef.current = 0;
+    stableSinceRef.current = null;
+  }, []);
+
+  // 特徴量抽出・マッチング戦略の切り替え（Worker内でマスターデータを再構築する）
+  const setFeatureStrategy = useCallback((strategy: FeatureStrategyId) => {
+    if (strategy === featureStrategyRef.current) {
+      return;
+    }
+    featureStrategyRef.current = strategy;
+    setFeatureStrategyState(strategy);
+    setIsMasterReady(false);
+    setLoadError(null);
+    postToWorker({ type: 'setFeatureStrategy', featureStrategy: strategy });
+  }, [postToWorker]);
+
+  // デッキの切り替え（Worker内でそのデッキのマスターデータだけを読み込み直す）
+  const setDeck = useCallback((nextDeck: string) => {
+    if (nextDeck === deckRef.current) {
+      return;
+    }
+    deckRef.current = nextDeck;
+    setDeckState(nextDeck);
+    setIsMasterReady(false);
+    setLoadError(null);
+    postToWorker({ type: 'setDeck', deck: nextDeck });
+  }, [postToWorker]);
+
+  // 登録サンプルを保存し、Workerのマスターデータに追加
+  const addEnrolledSamples = useCallback(async (samples: EnrolledSample[]) => {
+    for (const sample of samples) {
+      await saveEnrolledSample(sample);
+    }
+    setEnrolledSamples((prev) => [...prev, ...samples].sort((a, b) => a.createdAt - b.createdAt));
+    const images = await toEnrolledSampleImages(samples);
+    postToWorker({ type: 'addEnrolledSamples', samples: images }, images.map((s) => s.image));
+  }, [postToWorker]);
+
+  // 検出中のカードの切り出し画像を、選択中のデッキのマスター画像として登録
+  // デッキの自動判別中は、どのデッキの画像か決められないため登録しない
+  const enrollCard = useCallback(async (cardId: string) => {
+    const currentDeck = deckRef.current;
+    if (!detectedRectImage || !currentDeck || currentDeck === AUTO_DETECT_DECK) {
+      enrollmentLog.warn('カードが検出されていないか、デッキが選択されていません');
+      return false;
+    }
+
+    try {
+      const image = await (await fetch(detectedRectImage)).blob();
+      const sample: EnrolledSample = { id: crypto.randomUUID(), deckId: currentDeck, cardId, image, createdAt: Date.now() };
+      await addEnrolledSamples([sample]);
+      enrollmentLog.info(`${currentDeck}/${cardId} の画像を登録しました`);
+      return true;
+    } catch (error) {
+      enrollmentLog.error('登録サンプルの保存に失敗しました:', error);
+      return false;
+    }
+  }, [detectedRectImage, addEnrolledSamples]);
+
+  // 登録サンプルを削除
+  const removeEnrolledSample = useCallback(async (id: string) => {
+    try {
+      await deleteEnrolledSample(id);
+      setEnrolledSamples((prev) => prev.filter((sample) => sample.id !== id));
+      postToWorker({ type: 'removeEnrolledSample', id });
+    } catch (error) {
+      enrollmentLog.error('登録サンプルの削除に失敗しました:', error);
+    }
+  }, [postToWorker]);
+
+  // エクスポートした登録サンプルを取り込む
+  const importEnrolledSamples = useCallback(async (samples: EnrolledSample[]) => {
+    const existingIds = new Set(enrolledSamples.map((sample) => sample.id));
+    const newSamples = samples.filter((sample) => !existingIds.has(sample.id));
+    if (newSamples.length > 0) {
+      await addEnrolledSamples(newSamples);
+    }
+    enrollmentLog.info(`${newSamples.length}/${samples.length} 件の登録サンプルを取り込みました`);
+    return newSamples.length;
+  }, [enrolledSamples, addEnrolledSamples]);
+
+  // リーディングセッションを開始（進行中のセッションは終了する）
+  const startSpreadSession = useCallback((spread: SpreadDefinition) => {
+    const session = createSpreadSession(spread);
+    setSpreadSession(session);
+    persistSpreadSession(session);
+    sessionLog.info(`スプレッド ${spread.id}（${spread.positions.length}枚）を開始しました`);
   }, []);
 
-  // ブラックリストに追加
-  const addToBlacklist = useCallback((card: string) => {
-    setBlacklist((prev) => [...prev, card]);
+  // リーディングセッションを終了（撮影したリーディングは履歴に残る）
+  const endSpreadSession = useCallback(() => {
+    setSpreadSession(null);
+    persistSpreadSession(null);
   }, []);
 
-  // メモリ解放の自動化（クリーンアップ処理）
+  // 位置の割り当てを外す（次に撮影したカードがこの位置に割り当てられる）
+  const clearSpreadPosition = useCallback((index: number) => {
+    if (!spreadSession) {
+      return;
+    }
+    const assignments = spreadSession.assignments.map((assignment, i) => (i === index ? null : assignment));
+    const session = { ...spreadSession, assignments };
+    setSpreadSession(session);
+    persistSpreadSession(session);
+  }, [spreadSession]);
+
+  // 単一/複数カードモードの切り替え（検出中の画像はモードごとに異なるためクリア）
+  const setMultiCardMode = useCallback((enabled: boolean) => {
+    setIsMultiCardMode(enabled);
+    setDetectedRectImage(null);
+    detectedRectImageSourceRef.current = null;
+    setDetectedRects([]);
+    setDetectedRectImages([]);
+    detectedRectImagesSourceRef.current = [];
+    postToWorker({ type: 'resetTracker' });
+  }, [postToWorker]);
+
+  // タイマーのクリーンアップ
   useEffect(() => {
     return () => {
-      // タイマーをクリア
       if (detectionTimeoutRef.current) {
         clearTimeout(detectionTimeoutRef.current);
         detectionTimeoutRef.current = null;
       }
-      
-      // ページを離れる際や再読み込み時に、Map内のcv.Matオブジェクトをすべて削除
-      console.log('マスターデータのメモリを解放中...');
-      const masterDataMap = masterDataMapRef.current;
-      for (const [cardId, masterData] of masterDataMap.entries()) {
-        try {
-          // 各カードの全画像の特徴量を解放
-          for (const imageData of masterData.images) {
-            if (imageData.keypoints) {
-              imageData.keypoints.delete();
-            }
-            if (imageData.descriptors) {
-              imageData.descriptors.delete();
-            }
-          }
-        } catch (error) {
-          console.warn(`${cardId}のメモリ解放エラー:`, error);
-        }
-      }
-      masterDataMap.clear();
-      console.log('マスターデータのメモリ解放が完了しました');
     };
   }, []);
 
-  // フィルタリングされた候補
-  const filteredCandidates = candidates.filter((c) => !blacklist.includes(c.cardName));
+  const setLogLevel = useCallback((level: LogThreshold) => {
+    saveLogThreshold(level);
+    setLogLevelState(level);
+    postToWorker({ type: 'setLogLevel', logLevel: level });
+  }, [postToWorker]);
+
+  const getFrameDiagnostics = useCallback(() => frameDiagnosticsRef.current, []);
+
+  const subscribeFrameDiagnostics = useCallback((listener: () => void) => {
+    const listeners = frameDiagnosticsListenersRef.current;
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, []);
+
+  // フィルタリングされた候補（除外したカードとスプレッドに配置済みのカードを除く）
+  const excludedCardIds = [...blacklist, ...sessionExcludedCardIds];
+  const filteredCandidates = candidates.filter((c) => !excludedCardIds.includes(c.cardId));
+  const matchConfidence = assessConfidence(filteredCandidates, thresholds);
+  const filteredSpreadDetections: SpreadCardResult[] = spreadDetections.map((detection) => {
+    const detectionCandidates = detection.candidates.filter((c) => !excludedCardIds.includes(c.cardId));
+    return {
+      ...detection,
+      candidates: detectionCandidates,
+      confidence: assessConfidence(detectionCandidates, thresholds),
+    };
+  });
+  const nextSpreadPosition = spreadSession ? availablePositions(spreadPlacements)[0] ?? null : null;
 
   return {
     isCvLoaded,
     isMasterReady,
+    loadError,
     isAnalyzing,
     hasSavedImage,
     candidates: filteredCandidates,
+    matchTiming,
+    matchConfidence,
+    matchedDeckId,
     blacklist,
     detectedRect,
     detectedRectImage,
+    isMultiCardMode,
+    detectedRects,
+    detectedRectImages,
+    spreadDetections: filteredSpreadDetections,
+    isAutoCaptureEnabled,
+    featureStrategy,
+    deck,
+    decks,
+    enrolledSamples,
+    readings,
+    spreadSession,
+    spreadPlacements,
+    nextSpreadPosition,
+    cameraSettings,
+    cameraDevices,
+    cameraError,
+    activeResolution,
+    getFrameDiagnostics,
+    subscribeFrameDiagnostics,
+    logLevel,
     videoRef,
     canvasRef,
     captureImage,
+    analyzeImageFile,
     deleteImage,
     addToBlacklist,
+    setMultiCardMode,
+    setAutoCaptureEnabled,
+    setFeatureStrategy,
+    setDeck,
+    enrollCard,
+    removeEnrolledSample,
+    importEnrolledSamples,
+    deleteReading,
+    updateReadingNote,
+    startSpreadSession,
+    endSpreadSession,
+    clearSpreadPosition,
+    retryLoad,
+    setLogLevel,
+    updateCameraSettings,
+    retryCamera,
   };
 }
 
@@ -0,0 +1,62 @@
+// アプリのローカルデータを保存するIndexedDB（ブラウザのみ）
+// オブジェクトストアを追加する場合はDB_VERSIONを上げ、upgradeDatabaseに作成処理を追加する
+const DB_NAME = 'tarot-cv-app';
+const DB_VERSION = 2;
+
+// オブジェクトストア名
+export const ENROLLED_SAMPLES_STORE = 'enrolledSamples';
+export const READINGS_STORE = 'readings';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function upgradeDatabase(db: IDBDatabase, oldVersion: number) {
+  if (oldVersion < 1) {
+    db.createObjectStore(ENROLLED_SAMPLES_STORE, { keyPath: 'id' });
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(READINGS_STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+  }
+}
+
+// データベースを開く（2回目以降は同じ接続を使う）
+export function openAppDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgradeDatabase(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('別のタブでデータベースが使用中のため、更新できません'));
+    }).catch((error) => {
+      // 失敗した場合は次回の呼び出しで開き直す
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+// IDBRequestの完了を待つ
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// 1つのオブジェクトストアに対する読み書きを1トランザクションで行い、完了を待つ
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openAppDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const completed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('トランザクションが中断されました'));
+  });
+  const [result] = await Promise.all([requestToPromise(operation(transaction.objectStore(storeName))), completed]);
+  return result;
+}
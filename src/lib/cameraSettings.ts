@@ -0,0 +1,124 @@
+// カメラの選択（デバイス・向き・解像度）と、カメラを開けなかった理由の分類
+import { createLogger } from '@/src/lib/logger';
+
+const log = createLogger('camera');
+
+export type FacingMode = 'environment' | 'user';
+
+export type CameraResolutionId = 'auto' | '720p' | '1080p' | '4k';
+
+// 解像度の候補（指定した値に近い解像度をブラウザが選ぶ）
+export const CAMERA_RESOLUTIONS: Record<Exclude<CameraResolutionId, 'auto'>, { width: number; height: number }> = {
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 },
+  '4k': { width: 3840, height: 2160 },
+};
+
+export const CAMERA_RESOLUTION_IDS: CameraResolutionId[] = ['auto', '720p', '1080p', '4k'];
+
+export interface CameraSettings {
+  deviceId: string | null; // nullの場合はfacingModeで選ぶ（書画カメラなど外付けのカメラはデバイスで選ぶ）
+  facingMode: FacingMode;
+  resolution: CameraResolutionId;
+}
+
+// 選択できるカメラ（ラベルはカメラの使用を許可した後にのみ取得できる）
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+// カメラを開けなかった・使えなくなった理由
+export type CameraErrorKind =
+  | 'permissionDenied' // 使用が許可されなかった
+  | 'notFound' // カメラが接続されていない
+  | 'deviceUnavailable' // 選択したカメラが見つからないか、指定した条件で開けない
+  | 'inUse' // 他のアプリが使用中
+  | 'disconnected' // 使用中に取り外された
+  | 'unsupported' // ブラウザがカメラに対応していない（HTTPでない接続など）
+  | 'unknown';
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  facingMode: 'environment',
+  resolution: 'auto',
+};
+
+// 最後に選んだカメラの設定を保存するキー
+const CAMERA_SETTINGS_KEY = 'tarot-camera-settings';
+
+export function isCameraResolutionId(value: string): value is CameraResolutionId {
+  return (CAMERA_RESOLUTION_IDS as string[]).includes(value);
+}
+
+// 保存した設定を読み込む（ない場合や壊れている場合は既定値）
+export function loadCameraSettings(): CameraSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CAMERA_SETTINGS_KEY) ?? 'null');
+    if (!saved) {
+      return DEFAULT_CAMERA_SETTINGS;
+    }
+    return {
+      deviceId: typeof saved.deviceId === 'string' ? saved.deviceId : null,
+      facingMode: saved.facingMode === 'user' ? 'user' : 'environment',
+      resolution: isCameraResolutionId(saved.resolution) ? saved.resolution : 'auto',
+    };
+  } catch (error) {
+    log.warn('保存された設定を読み込めませんでした:', error);
+    return DEFAULT_CAMERA_SETTINGS;
+  }
+}
+
+export function saveCameraSettings(settings: CameraSettings) {
+  localStorage.setItem(CAMERA_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// 設定からgetUserMediaの映像の条件を作る
+export function buildVideoConstraints(settings: CameraSettings): MediaTrackConstraints {
+  const constraints: MediaTrackConstraints = settings.deviceId
+    ? { deviceId: { exact: settings.deviceId } }
+    : { facingMode: settings.facingMode };
+  if (settings.resolution !== 'auto') {
+    const { width, height } = CAMERA_RESOLUTIONS[settings.resolution];
+    constraints.width = { ideal: width };
+    constraints.height = { ideal: height };
+  }
+  return constraints;
+}
+
+// 設定に合ったカメラを開く（カメラに対応していないブラウザではNotSupportedErrorで失敗する）
+export async function openCamera(settings: CameraSettings): Promise<MediaStream> {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new DOMException('getUserMedia is not available', 'NotSupportedError');
+  }
+  return navigator.mediaDevices.getUserMedia({ video: buildVideoConstraints(settings) });
+}
+
+// 接続されているカメラの一覧
+export async function listCameraDevices(): Promise<CameraDevice[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter((device) => device.kind === 'videoinput')
+    .map((device) => ({ deviceId: device.deviceId, label: device.label }));
+}
+
+// getUserMediaの例外を理由ごとに分類する
+export function classifyCameraError(error: unknown): CameraErrorKind {
+  const name = error instanceof DOMException || error instanceof Error ? error.name : '';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return 'permissionDenied';
+    case 'NotFoundError':
+      return 'notFound';
+    case 'OverconstrainedError':
+      return 'deviceUnavailable';
+    case 'NotReadableError':
+    case 'AbortError':
+      return 'inUse';
+    case 'NotSupportedError':
+      return 'unsupported';
+    default:
+      return 'unknown';
+  }
+}
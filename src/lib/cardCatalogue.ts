@@ -0,0 +1,34 @@
+// タロットカード78枚（大アルカナ22枚・小アルカナ56枚）のカタログ
+// カードIDは public/master/ のフォルダ名と一致させる（scripts/generate-master-list.mjs で検証）
+import catalogueJson from '@/src/lib/card-catalogue.json';
+import type { Locale, LocalizedText } from '@/src/lib/i18n';
+
+export type Arcana = 'major' | 'minor';
+export type Suit = 'wands' | 'cups' | 'swords' | 'pentacles';
+export type Rank =
+  | 'ace' | 'two' | 'three' | 'four' | 'five' | 'six' | 'seven'
+  | 'eight' | 'nine' | 'ten' | 'page' | 'knight' | 'queen' | 'king';
+
+export interface CardMetadata {
+  id: string; // 例: FOOL, ACEOFWANDS, KINGOFCUPS
+  names: LocalizedText; // 言語ごとの表示名（例: The Fool / 愚者）
+  arcana: Arcana;
+  number: number; // 大アルカナは0〜21、小アルカナはエース=1〜キング=14
+  suit?: Suit; // 小アルカナのみ
+  rank?: Rank; // 小アルカナのみ
+}
+
+export const CARD_CATALOGUE: CardMetadata[] = catalogueJson.cards as CardMetadata[];
+
+const CARDS_BY_ID = new Map(CARD_CATALOGUE.map((card) => [card.id, card]));
+
+// カードIDからメタデータを取得（カタログにない場合はundefined）
+export function getCardMetadata(cardId: string): CardMetadata | undefined {
+  return CARDS_BY_ID.get(cardId);
+}
+
+// カードIDから表示名を取得（カタログにない場合はIDをそのまま返す）
+// 言語を指定しない場合はログなどに使う英語の名前を返す
+export function getCardDisplayName(cardId: string, locale: Locale = 'en'): string {
+  return CARDS_BY_ID.get(cardId)?.names[locale] ?? cardId;
+}
@@ -0,0 +1,141 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// フレーム画像からカードの四角形を検出する（コントラスト強調 → Canny → 膨張 → 輪郭検出 → 四角形近似）
+import { approximateCardQuad, sortQuadsInReadingOrder, type Point } from '@/src/lib/cardGeometry';
+
+export interface DetectedRect {
+  points: Point[];
+  area: number;
+  trackId?: number; // 単一カードモードでの追跡ID
+  stability?: number; // 単一カードモードでの安定度（0～1）
+}
+
+// 四角形を検出できたか、できなかった場合はどの段階で外れたか（診断用）
+export type QuadStatus =
+  | 'found'
+  | 'noContours' // 輪郭が1つもない
+  | 'tooSmall' // 最小面積を満たす輪郭がない
+  | 'notQuad'; // 最小面積を満たす輪郭が4頂点のカード形状に近似できない
+
+export interface CardDetectionResult {
+  rects: DetectedRect[]; // 単一カードモードでは最大1件、複数カードモードでは読み順に並べたもの
+  totalContours: number;
+  maxArea: number; // すべての輪郭の中での最大面積
+  minArea: number; // カード候補とみなす最小面積
+  quadStatus: QuadStatus;
+}
+
+// 矩形以外の検出結果（診断パネルに表示する）
+export type DetectionStats = Omit<CardDetectionResult, 'rects'>;
+
+function quadStatusOf(rects: DetectedRect[], totalContours: number, maxArea: number, minArea: number): QuadStatus {
+  if (rects.length > 0) {
+    return 'found';
+  }
+  if (totalContours === 0) {
+    return 'noContours';
+  }
+  return maxArea < minArea ? 'tooSmall' : 'notQuad';
+}
+
+// グレースケール変換と高コントラスト処理（戻り値のMatは呼び出し側でdelete()すること）
+export function enhanceContrast(cv: OpenCV, src: any): any {
+  const gray = new cv.Mat();
+  const contrast = new cv.Mat();
+  try {
+    cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY);
+    const alpha = 1.5; // コントラスト係数
+    const beta = 0; // 明るさ調整
+    gray.convertTo(contrast, -1, alpha, beta);
+  } finally {
+    gray.delete();
+  }
+  return contrast;
+}
+
+// コントラスト強調済みの画像からカードの四角形を検出
+// 単一カードモードでは最小面積を満たす最大の輪郭のみ、複数カードモードではすべての輪郭を対象にする
+export function detectCardRects(cv: OpenCV, contrast: any, multiCard: boolean): CardDetectionResult {
+  const edges = new cv.Mat();
+  const dilated = new cv.Mat();
+  const kernel = cv.getStructuringElement(cv.MORPH_RECT, new cv.Size(3, 3));
+  const contours = new cv.MatVector();
+  const hierarchy = new cv.Mat();
+
+  try {
+    // Cannyエッジ検出
+    cv.Canny(contrast, edges, 50, 150, 3, false);
+
+    // 膨張処理（dilate）でエッジを太くし、カードの輪郭を明確にする
+    const anchor = new cv.Point(-1, -1);
+    cv.dilate(edges, dilated, kernel, anchor, 2, cv.BORDER_CONSTANT, cv.morphologyDefaultBorderValue());
+
+    // 輪郭を検出（膨張処理後の画像を使用）
+    cv.findContours(dilated, contours, hierarchy, cv.RETR_EXTERNAL, cv.CHAIN_APPROX_SIMPLE);
+
+    const totalContours = contours.size();
+    const areaList: number[] = [];
+    let allMaxArea = 0; // 最小面積に関係なく最大の面積
+    for (let i = 0; i < totalContours; i++) {
+      const area = cv.contourArea(contours.get(i), false);
+      areaList.push(area);
+      if (area > allMaxArea) {
+        allMaxArea = area;
+      }
+    }
+
+    // 動的な最小面積を計算（最大面積の50%以上、または絶対値で500以上）
+    const minArea = Math.max(500, allMaxArea * 0.5);
+
+    const rects: DetectedRect[] = [];
+    if (multiCard) {
+      // 最小面積を満たすすべての輪郭をカード候補として扱う
+      for (let i = 0; i < totalContours; i++) {
+        if (areaList[i] < minArea) continue;
+        const points = approximateCardQuad(cv, contours.get(i));
+        if (points) {
+          rects.push({ points, area: areaList[i] });
+        }
+      }
+      const sorted = sortQuadsInReadingOrder(rects);
+      return {
+        rects: sorted,
+        totalContours,
+        maxArea: allMaxArea,
+        minArea,
+        quadStatus: quadStatusOf(sorted, totalContours, allMaxArea, minArea),
+      };
+    }
+
+    // 最小面積を満たす最大の輪郭を探す
+    let maxArea = 0;
+    let largestIndex = -1;
+    for (let i = 0; i < totalContours; i++) {
+      if (areaList[i] > maxArea && areaList[i] >= minArea) {
+        maxArea = areaList[i];
+        largestIndex = i;
+      }
+    }
+
+    if (largestIndex >= 0) {
+      const points = approximateCardQuad(cv, contours.get(largestIndex));
+      if (points) {
+        rects.push({ points, area: maxArea });
+      }
+    }
+
+    return {
+      rects,
+      totalContours,
+      maxArea: allMaxArea,
+      minArea,
+      quadStatus: quadStatusOf(rects, totalContours, allMaxArea, minArea),
+    };
+  } finally {
+    // メモリ解放
+    edges.delete();
+    dilated.delete();
+    kernel.delete();
+    contours.delete();
+    hierarchy.delete();
+  }
+}
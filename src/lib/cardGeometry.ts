@@ -0,0 +1,214 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// カード矩形の幾何処理（頂点の並べ替え・形状チェック・透視変換）
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// タロットカードの縦横比（幅 / 高さ）。ライダー版の70mm x 120mmを基準にする
+export const CARD_ASPECT_RATIO = 7 / 12;
+
+// 透視変換後のカード画像サイズ（縦長の正面画像に揃える）
+export const CANONICAL_CARD_WIDTH = 350;
+export const CANONICAL_CARD_HEIGHT = Math.round(CANONICAL_CARD_WIDTH / CARD_ASPECT_RATIO);
+
+export function distance(p1: Point, p2: Point): number {
+  return Math.hypot(p2.x - p1.x, p2.y - p1.y);
+}
+
+// 矩形の4点を左上、右上、右下、左下の順に並べ替える関数
+export function sortRectanglePoints(points: Point[]): Point[] {
+  if (points.length !== 4) return points;
+  
+  // 各点を左上、右上、右下、左下に分類
+  // 左上: x+yが最小
+  // 右下: x+yが最大
+  // 右上: x-yが最大
+  // 左下: x-yが最小
+  const sum = points.map(p => ({ point: p, sum: p.x + p.y }));
+  const diff = points.map(p => ({ point: p, diff: p.x - p.y }));
+  
+  const leftTop = sum.reduce((min, p) => p.sum < min.sum ? p : min, sum[0]).point;
+  const rightBottom = sum.reduce((max, p) => p.sum > max.sum ? p : max, sum[0]).point;
+  const rightTop = diff.reduce((max, p) => p.diff > max.diff ? p : max, diff[0]).point;
+  const leftBottom = diff.reduce((min, p) => p.diff < min.diff ? p : min, diff[0]).point;
+  
+  return [leftTop, rightTop, rightBottom, leftBottom];
+}
+
+// 矩形の形状チェック関数（カードの形状に近いか確認）
+export function checkRectangleShape(points: Point[]): boolean {
+  if (points.length !== 4) return false;
+  
+  // 4つの頂点から辺の長さを計算
+  const distances: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const p1 = points[i];
+    const p2 = points[(i + 1) % 4];
+    const dx = p2.x - p1.x;
+    const dy = p2.y - p1.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    distances.push(dist);
+  }
+  
+  // 対辺の長さがほぼ等しいかチェック（誤差10%以内）
+  const opposite1Ratio = Math.min(distances[0], distances[2]) / Math.max(distances[0], distances[2]);
+  const opposite2Ratio = Math.min(distances[1], distances[3]) / Math.max(distances[1], distances[3]);
+  
+  if (opposite1Ratio < 0.9 || opposite2Ratio < 0.9) {
+    return false; // 対辺の長さが大きく異なる
+  }
+  
+  // アスペクト比をチェック（カードは通常、縦長または横長の長方形）
+  const width = Math.max(distances[0], distances[2]);
+  const height = Math.max(distances[1], distances[3]);
+  const aspectRatio = width / height;
+  
+  // アスペクト比が0.5～2.0の範囲内（カードの一般的な形状）
+  if (aspectRatio < 0.5 || aspectRatio > 2.0) {
+    return false; // アスペクト比が極端
+  }
+  
+  // 角度をチェック（4つの角がほぼ90度に近いか）
+  for (let i = 0; i < 4; i++) {
+    const p1 = points[i];
+    const p2 = points[(i + 1) % 4];
+    const p3 = points[(i + 2) % 4];
+    
+    // ベクトルを計算
+    const v1x = p2.x - p1.x;
+    const v1y = p2.y - p1.y;
+    const v2x = p3.x - p2.x;
+    const v2y = p3.y - p2.y;
+    
+    // 内積から角度を計算
+    const dot = v1x * v2x + v1y * v2y;
+    const len1 = Math.sqrt(v1x * v1x + v1y * v1y);
+    const len2 = Math.sqrt(v2x * v2x + v2y * v2y);
+    const cosAngle = dot / (len1 * len2);
+    const angle = Math.acos(Math.max(-1, Math.min(1, cosAngle))) * (180 / Math.PI);
+    
+    // 角度が70度～110度の範囲内（90度±20度）
+    if (angle < 70 || angle > 110) {
+      return false; // 角度が90度から大きく外れている
+    }
+  }
+  
+  return true; // すべてのチェックを通過
+}
+
+// 並べ替え済みの4頂点から、縦長に揃えたカードの4頂点（左上、右上、右下、左下）を求める
+// 横長に写っている場合は左下をカードの左上として扱う
+function canonicalCardCorners(sortedPoints: Point[]): Point[] {
+  const [leftTop, rightTop, rightBottom, leftBottom] = sortedPoints;
+  const width = Math.max(distance(leftTop, rightTop), distance(leftBottom, rightBottom));
+  const height = Math.max(distance(leftTop, leftBottom), distance(rightTop, rightBottom));
+  return width > height
+    ? [leftBottom, leftTop, rightTop, rightBottom]
+    : [leftTop, rightTop, rightBottom, leftBottom];
+}
+
+// warpCardToCanonicalで切り出した画像の上辺が、撮影画像の中で向いている角度（度、画像座標で時計回りが正）
+// 縦長に写っている場合はカードの傾き（±45度以内）、横長に写っている場合は縦長に揃えた分の-90度を含む
+export function canonicalCardRotation(sortedPoints: Point[]): number {
+  const [topLeft, topRight] = canonicalCardCorners(sortedPoints);
+  return Math.atan2(topRight.y - topLeft.y, topRight.x - topLeft.x) * (180 / Math.PI);
+}
+
+// 並べ替え済みの4頂点（左上、右上、右下、左下）から、カードを正面・縦長の画像に透視変換する
+// 横向きに置かれたカードは90度回転させて縦長に揃える（上下の向きは区別しない）
+// 戻り値のMatは呼び出し側でdelete()すること
+export function warpCardToCanonical(cv: OpenCV, src: any, sortedPoints: Point[]): any {
+  const corners = canonicalCardCorners(sortedPoints);
+  const w = CANONICAL_CARD_WIDTH;
+  const h = CANONICAL_CARD_HEIGHT;
+  const srcCorners = cv.matFromArray(4, 1, cv.CV_32FC2, corners.flatMap((p) => [p.x, p.y]));
+  const dstCorners = cv.matFromArray(4, 1, cv.CV_32FC2, [0, 0, w, 0, w, h, 0, h]);
+  const transform = cv.getPerspectiveTransform(srcCorners, dstCorners);
+  const warped = new cv.Mat();
+
+  try {
+    cv.warpPerspective(src, warped, transform, new cv.Size(w, h));
+  } finally {
+    srcCorners.delete();
+    dstCorners.delete();
+    transform.delete();
+  }
+
+  return warped;
+}
+
+// 輪郭をカードらしい四角形に近似する
+// 頂点が4つで形状チェックを通過した場合のみ、並べ替え済みの頂点（左上、右上、右下、左下）を返す
+export function approximateCardQuad(cv: OpenCV, contour: any): Point[] | null {
+  const approx = new cv.Mat();
+  try {
+    const epsilon = 0.01 * cv.arcLength(contour, true);
+    cv.approxPolyDP(contour, approx, epsilon, true);
+    if (approx.rows !== 4) return null;
+
+    const data = approx.data32S;
+    const points: Point[] = [];
+    for (let i = 0; i < 4; i++) {
+      points.push({ x: data[i * 2], y: data[i * 2 + 1] });
+    }
+
+    if (!checkRectangleShape(points)) return null;
+    return sortRectanglePoints(points);
+  } finally {
+    approx.delete();
+  }
+}
+
+// 四角形の中心（4頂点の平均）
+export function quadCenter(points: Point[]): Point {
+  return {
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+  };
+}
+
+// 複数の四角形を読み順（上の行から順に、各行は左から右）に並べ替える
+// 中心のy座標の差がカードの高さの半分以内であれば同じ行とみなす
+export function sortQuadsInReadingOrder<T extends { points: Point[] }>(quads: T[]): T[] {
+  const items = quads
+    .map((quad) => {
+      const ys = quad.points.map((p) => p.y);
+      return { quad, center: quadCenter(quad.points), height: Math.max(...ys) - Math.min(...ys) };
+    })
+    .sort((a, b) => a.center.y - b.center.y);
+
+  const rows: Array<typeof items> = [];
+  for (const item of items) {
+    const row = rows[rows.length - 1];
+    if (row) {
+      const rowY = row.reduce((sum, r) => sum + r.center.y, 0) / row.length;
+      const rowHeight = row.reduce((sum, r) => sum + r.height, 0) / row.length;
+      if (Math.abs(item.center.y - rowY) <= Math.min(rowHeight, item.height) / 2) {
+        row.push(item);
+        continue;
+      }
+    }
+    rows.push([item]);
+  }
+
+  return rows.flatMap((row) => row.sort((a, b) => a.center.x - b.center.x).map((item) => item.quad));
+}
+
+// 2つの四角形の対応する頂点がすべて許容距離（ピクセル）以内にあるか
+export function isQuadStable(previous: Point[], current: Point[], tolerance: number): boolean {
+  if (previous.length !== current.length) return false;
+  return current.every((p, i) => distance(p, previous[i]) <= tolerance);
+}
+
+// 四角形の面積（頂点順に並んだ多角形として計算）
+export function quadArea(points: Point[]): number {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const p1 = points[i];
+    const p2 = points[(i + 1) % points.length];
+    sum += p1.x * p2.y - p2.x * p1.y;
+  }
+  return Math.abs(sum) / 2;
+}
@@ -0,0 +1,378 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// 撮影画像とマスター画像の特徴量マッチング（ブラウザ・Worker・Nodeで共通利用）
+import { cardPlacement, estimateOrientation, type CardOrientation } from '@/src/lib/orientation';
+import type { Point } from '@/src/lib/cardGeometry';
+import type { FeatureStrategy } from '@/src/lib/featureStrategies';
+import { findHomographyDegeneracy } from '@/src/lib/homographyVerification';
+import { computeGlobalSignature, rankByGlobalSignature } from '@/src/lib/globalSignature';
+import type { MasterData, MasterImageData } from '@/src/lib/masterData';
+import { createLogger } from '@/src/lib/logger';
+
+const log = createLogger('matching');
+
+// 1枚のマスターカードとの照合結果（カード内で最もスコアの高いマスター画像のもの）
+export interface Candidate {
+  cardId: string; // master-list.json のカードID（除外リスト等の識別に使用）
+  displayName: string;
+  score: number; // 正規化スコア（%、小数点2桁）
+  bestImage: { index: number; file: string } | null; // 最もスコアの高かったマスター画像
+  goodMatches: number; // Ratio Test後のマッチ数
+  inliers: number | null; // ホモグラフィのRANSACで幾何的に整合したマッチ数（検証できなかった場合はnull）
+  verificationIssue: string | null; // ホモグラフィで検証できなかった理由（検証できた場合はnull）
+  masterKeypoints: number; // マスター画像の特徴点数
+  orientation: CardOrientation | null; // ホモグラフィが得られなかった場合はnull
+  matchMs: number; // このカードの全マスター画像との照合にかかった時間
+}
+
+// マッチング各段階の処理時間（ミリ秒）
+export interface MatchTiming {
+  prefilterMs: number;
+  featuresMs: number;
+  matchingMs: number;
+  totalMs: number;
+}
+
+// 1枚の撮影画像のマッチング結果
+export interface MatchResult {
+  candidates: Candidate[]; // スコア順
+  timing: MatchTiming;
+}
+
+// ログに出すカードの置き方
+const PLACEMENT_LOG_LABELS = { upright: '正位置', reversed: '逆位置', sideways: '横向き' } as const;
+
+// RANSACでインライアとみなす再投影誤差（px）
+const RANSAC_REPROJECTION_THRESHOLD = 5.0;
+
+export interface MatchOptions {
+  prefilterTopK?: number; // 大まかな類似度で絞り込んだ上位何枚を特徴点マッチングするか（0以下で絞り込まない）
+  frameRotation?: number; // 撮影画像（切り出し画像）の撮影時の回転角（cardGeometryのcanonicalCardRotation、画像全体は0）
+}
+
+// 撮影画像とマスターカード全体の大まかな類似度を計算し、特徴点マッチングの対象を上位K枚に絞り込む
+function prefilterMasterCards(
+  cv: OpenCV,
+  src: any,
+  masterDataMap: Map<string, MasterData>,
+  topK: number
+): string[] {
+  const ranking = rankByGlobalSignature(computeGlobalSignature(cv, src), masterDataMap);
+  const selectedCount = topK > 0 ? Math.min(topK, ranking.length) : ranking.length;
+
+  log.debug(`\n=== プレフィルタ順位（上位 ${selectedCount}/${ranking.length} 枚を特徴点マッチング） ===`);
+  ranking.forEach((r, index) => {
+    const marker = index < selectedCount ? '✓' : '✗';
+    log.debug(
+      `  ${marker} ${index + 1}. ${masterDataMap.get(r.cardId)?.displayName ?? r.cardId}: ${r.score.toFixed(3)} (ヒストグラム類似度: ${r.histogramSimilarity.toFixed(3)}, ハッシュ距離: ${r.hashDistance})`
+    );
+  });
+
+  return ranking.slice(0, selectedCount).map((r) => r.cardId);
+}
+
+// 画像から抽出した特徴量（keypointsはcv.KeyPointVector、descriptorsはcv.Mat）
+export interface ImageFeatures {
+  keypoints: any;
+  descriptors: any;
+}
+
+// BFMatcher作成ヘルパー関数
+export function createBFMatcher(cv: OpenCV, normType: number, crossCheck: boolean = false): any {
+  if (cv.BFMatcher_create) {
+    return cv.BFMatcher_create(normType, crossCheck);
+  } else if (cv.BFMatcher && typeof cv.BFMatcher === 'function') {
+    return new cv.BFMatcher(normType, crossCheck);
+  } else if (cv.BFMatcher && cv.BFMatcher.create) {
+    return cv.BFMatcher.create(normType, crossCheck);
+  } else {
+    throw new Error('BFMatcher is not available in this OpenCV.js build. Make sure features2d module is included.');
+  }
+}
+
+// 応答の強い順に特徴点を最大maxCount個まで残した新しいKeyPointVectorを返す
+function retainStrongestKeypoints(cv: OpenCV, keypoints: any, maxCount: number): any {
+  const all: any[] = [];
+  for (let i = 0; i < keypoints.size(); i++) {
+    all.push(keypoints.get(i));
+  }
+  all.sort((a, b) => b.response - a.response);
+
+  const retained = new cv.KeyPointVector();
+  for (const keypoint of all.slice(0, maxCount)) {
+    retained.push_back(keypoint);
+  }
+  return retained;
+}
+
+// RGBA画像の特徴量を戦略の検出器で計算（keypointsとdescriptorsは呼び出し側でdelete()すること）
+export function computeFeatures(cv: OpenCV, src: any, strategy: FeatureStrategy): ImageFeatures {
+  const gray = new cv.Mat();
+  const mask = new cv.Mat();
+  const detector = strategy.createDetector(cv);
+  let keypoints = new cv.KeyPointVector();
+  const descriptors = new cv.Mat();
+
+  try {
+    cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY);
+    detector.detect(gray, keypoints, mask);
+    // 検出器が特徴点の数を制限できない場合（AKAZE・BRISK）は応答の強いものだけを残す
+    if (keypoints.size() > strategy.maxFeatures) {
+      const retained = retainStrongestKeypoints(cv, keypoints, strategy.maxFeatures);
+      keypoints.delete();
+      keypoints = retained;
+    }
+    detector.compute(gray, keypoints, descriptors);
+  } catch (error) {
+    keypoints.delete();
+    descriptors.delete();
+    throw error;
+  } finally {
+    gray.delete();
+    mask.delete();
+    detector.delete();
+  }
+
+  return { keypoints, descriptors };
+}
+
+// 特徴量をマスターデータの形式に変換（マッチングでは特徴点の座標しか使わないため、KeyPointVectorは解放する）
+export function toMasterImageData(features: ImageFeatures): Pick<MasterImageData, 'keypoints' | 'descriptors'> {
+  const keypoints: Point[] = [];
+  try {
+    for (let i = 0; i < features.keypoints.size(); i++) {
+      const { pt } = features.keypoints.get(i);
+      keypoints.push({ x: pt.x, y: pt.y });
+    }
+  } finally {
+    features.keypoints.delete();
+  }
+  return { keypoints, descriptors: features.descriptors };
+}
+
+// 画像マッチング処理（フォルダ内全画像と比較し、最高スコアを採用）
+// RGBAの撮影画像を受け取り、スコア順に並べた候補と処理時間を返す（処理に失敗した場合は例外を投げる）
+// マスターデータは同じ戦略で構築したものを渡すこと
+export function matchCandidates(
+  cv: OpenCV,
+  src: any,
+  masterDataMap: Map<string, MasterData>,
+  strategy: FeatureStrategy,
+  { prefilterTopK = 10, frameRotation = 0 }: MatchOptions = {}
+): MatchResult {
+  let features: ImageFeatures | null = null;
+  let matcher: any = null;
+  const startedAt = performance.now();
+
+  try {
+    // 色ヒストグラムと知覚ハッシュで特徴点マッチングの対象を絞り込む
+    const prefilteredCardIds = prefilterMasterCards(cv, src, masterDataMap, prefilterTopK);
+    const prefilteredAt = performance.now();
+
+    // 撮影画像の特徴量を抽出
+    features = computeFeatures(cv, src, strategy);
+    const { keypoints, descriptors } = features;
+    const featuresComputedAt = performance.now();
+
+    // BFMatcherでマッチング（knnMatchを使用）
+    matcher = createBFMatcher(cv, strategy.getNormType(cv), false);
+    const candidates: Candidate[] = [];
+
+    // 絞り込んだマスターデータと比較
+    for (const cardName of prefilteredCardIds) {
+      const master = masterDataMap.get(cardName)!;
+      const cardStartedAt = performance.now();
+      let maxScore = 0; // このカードフォルダ内での最高スコア（正規化済み）
+      let bestImageIndex = -1;
+      let bestGoodMatches = 0;
+      let bestInliers: number | null = null;
+      let bestVerificationIssue: string | null = null;
+      let bestTotalKeypoints = 0;
+      let bestOrientation: CardOrientation | null = null;
+
+      // このカードの全マスター画像と比較
+      for (let imgIndex = 0; imgIndex < master.images.length; imgIndex++) {
+        const masterImage = master.images[imgIndex];
+        const knnMatches = new cv.DMatchVectorVector();
+        try {
+          // knnMatch (k=2) を使用
+          matcher.knnMatch(descriptors, masterImage.descriptors, knnMatches, 2);
+
+          // Lowe's Ratio Test を適用
+          const goodMatches: any[] = [];
+          const matchCount = knnMatches.size();
+        
+          for (let i = 0; i < matchCount; i++) {
+            const matchPair = knnMatches.get(i);
+            if (matchPair.size() === 2) {
+              const first = matchPair.get(0);
+              const second = matchPair.get(1);
+            
+              // Lowe's Ratio Test: distance1 < ratioThreshold * distance2
+              if (first.distance < strategy.ratioThreshold * second.distance) {
+                goodMatches.push(first);
+              }
+            } else if (matchPair.size() === 1) {
+              // 2番目のマッチが見つからない場合は、1番目のマッチのみを使用
+              const first = matchPair.get(0);
+              goodMatches.push(first);
+            }
+          
+            matchPair.delete();
+          }
+
+          const goodMatchCount = goodMatches.length;
+          const masterKeypointCount = masterImage.keypoints.length;
+        
+          // ホモグラフィ変換による検証（Good Matchesが戦略ごとの最小数以上の場合）
+          // RANSACで幾何的に整合したマッチ（インライア）だけを「そのカードである」根拠として数える
+          let orientation: CardOrientation | null = null;
+          let inliers: number | null = null;
+          let verificationIssue: string | null = null;
+          if (goodMatchCount < strategy.minGoodMatches) {
+            verificationIssue = `Good Matchesが${strategy.minGoodMatches}点未満`;
+          } else {
+            let srcPointsMat: any = null;
+            let dstPointsMat: any = null;
+            let inlierMask: any = null;
+            let homography: any = null;
+            try {
+              // マッチした特徴点の座標を取得
+              const srcPointsData: number[] = [];
+              const dstPointsData: number[] = [];
+            
+              for (const match of goodMatches) {
+                const queryIdx = match.queryIdx;
+                const trainIdx = match.trainIdx;
+              
+                if (queryIdx < keypoints.size() && trainIdx < masterImage.keypoints.length) {
+                  const queryKp = keypoints.get(queryIdx);
+                  const trainPoint = masterImage.keypoints[trainIdx];
+                
+                  srcPointsData.push(queryKp.pt.x, queryKp.pt.y);
+                  dstPointsData.push(trainPoint.x, trainPoint.y);
+                }
+              }
+            
+              srcPointsMat = cv.matFromArray(srcPointsData.length / 2, 1, cv.CV_32FC2, srcPointsData);
+              dstPointsMat = cv.matFromArray(dstPointsData.length / 2, 1, cv.CV_32FC2, dstPointsData);
+
+              // ホモグラフィ変換を計算（inlierMaskにはRANSACで整合したマッチが1で記録される）
+              inlierMask = new cv.Mat();
+              homography = cv.findHomography(
+                srcPointsMat, dstPointsMat,
+                cv.RANSAC, RANSAC_REPROJECTION_THRESHOLD, inlierMask
+              );
+
+              if (!homography || homography.empty()) {
+                verificationIssue = 'ホモグラフィが得られない';
+              } else {
+                const inlierCount = cv.countNonZero(inlierMask);
+                const degeneracy = findHomographyDegeneracy(
+                  homography.data64F,
+                  { width: src.cols, height: src.rows },
+                  { width: masterImage.width, height: masterImage.height }
+                );
+                if (degeneracy) {
+                  verificationIssue = degeneracy;
+                } else if (inlierCount < strategy.minInliers) {
+                  verificationIssue = `インライアが${strategy.minInliers}点未満 (${inlierCount})`;
+                } else {
+                  inliers = inlierCount;
+                  // ホモグラフィの回転成分からカードの向きを推定
+                  orientation = estimateOrientation(homography.data64F, inlierCount, frameRotation);
+                }
+              }
+            } catch (error) {
+              log.warn(`[ホモグラフィ変換] ${cardName} 画像${imgIndex} の計算に失敗:`, error);
+              verificationIssue = 'ホモグラフィの計算に失敗';
+            } finally {
+              if (srcPointsMat) srcPointsMat.delete();
+              if (dstPointsMat) dstPointsMat.delete();
+              if (inlierMask) inlierMask.delete();
+              if (homography) homography.delete();
+            }
+          }
+
+          // 正規化スコアを計算: (インライア数 / マスター画像の特徴点総数) * 100
+          // 幾何的に検証できなかった画像は、特徴が部分的に似ているだけとみなしてスコアを0とする
+          const normalizedScore = masterKeypointCount > 0 && inliers !== null
+            ? (inliers / masterKeypointCount) * 100
+            : 0;
+        
+          log.debug(`  [${cardName}] 画像${imgIndex + 1}/${master.images.length}: 
+            - 総マッチ数: ${matchCount}
+            - Ratio Test後: ${goodMatchCount} matches
+            - マスター特徴点数: ${masterKeypointCount}
+            - 正規化スコア: ${normalizedScore.toFixed(2)}%
+            - ホモグラフィ検証: ${verificationIssue ? `NG (${verificationIssue})` : `OK (インライア: ${inliers}/${goodMatchCount})`}
+            - 向き: ${orientation ? `${PLACEMENT_LOG_LABELS[cardPlacement(orientation)]} (${orientation.angle}°, 信頼度 ${orientation.confidence})` : '不明'}`);
+        
+          // この画像とのスコアが最高スコアを上回る場合は更新
+          // （どの画像も検証できなかった場合は、調査用にGood Matchesが最も多い画像を残す）
+          const isBetter = normalizedScore > maxScore ||
+            (normalizedScore === maxScore && (bestImageIndex < 0 || goodMatchCount > bestGoodMatches));
+          if (isBetter) {
+            maxScore = normalizedScore;
+            bestImageIndex = imgIndex;
+            bestGoodMatches = goodMatchCount;
+            bestInliers = inliers;
+            bestVerificationIssue = verificationIssue;
+            bestTotalKeypoints = masterKeypointCount;
+            bestOrientation = orientation;
+          }
+        } finally {
+          knnMatches.delete();
+        }
+      }
+
+      // このカードの最終スコアとして最高スコアを採用
+      candidates.push({
+        cardId: cardName,
+        displayName: master.displayName,
+        score: Math.round(maxScore * 100) / 100, // 小数点2桁で表示
+        bestImage: bestImageIndex >= 0 ? { index: bestImageIndex, file: master.images[bestImageIndex].file } : null,
+        goodMatches: bestGoodMatches,
+        inliers: bestInliers,
+        verificationIssue: bestVerificationIssue,
+        masterKeypoints: bestTotalKeypoints,
+        orientation: bestOrientation,
+        matchMs: Math.round(performance.now() - cardStartedAt),
+      });
+      
+      log.debug(`✓ ${master.displayName} (${cardName}): 
+        最高スコア ${maxScore.toFixed(2)}% 
+        (画像${bestImageIndex + 1}/${master.images.length}が最高, 
+        Good Matches: ${bestGoodMatches}, 
+        インライア: ${bestInliers ?? `- (${bestVerificationIssue})`}, 
+        特徴点数: ${bestTotalKeypoints})`);
+    }
+
+    // スコアが高い順にソート
+    candidates.sort((a, b) => b.score - a.score);
+    const finishedAt = performance.now();
+    const timing: MatchTiming = {
+      prefilterMs: Math.round(prefilteredAt - startedAt),
+      featuresMs: Math.round(featuresComputedAt - prefilteredAt),
+      matchingMs: Math.round(finishedAt - featuresComputedAt),
+      totalMs: Math.round(finishedAt - startedAt),
+    };
+
+    log.info('\n=== マッチング結果サマリー ===');
+    log.info('スコア順位（正規化済み）:');
+    candidates.forEach((candidate, index) => {
+      const prefilterRank = prefilteredCardIds.indexOf(candidate.cardId) + 1;
+      log.info(`  ${index + 1}. ${candidate.displayName} (${candidate.cardId}): ${candidate.score.toFixed(2)}% (Good Matches: ${candidate.goodMatches}, インライア: ${candidate.inliers ?? '-'}, 特徴点数: ${candidate.masterKeypoints}, 最高画像: ${candidate.bestImage?.file ?? '-'}, プレフィルタ順位: ${prefilterRank})`);
+    });
+    log.info(`処理時間: 合計 ${timing.totalMs}ms (プレフィルタ ${timing.prefilterMs}ms, 特徴量抽出 ${timing.featuresMs}ms, マッチング ${timing.matchingMs}ms)`);
+    log.info('============================\n');
+
+    return { candidates, timing };
+  } finally {
+    // メモリ解放（エラーが発生しても確実に解放）
+    if (features) {
+      features.keypoints.delete();
+      features.descriptors.delete();
+    }
+    if (matcher) matcher.delete();
+  }
+}
@@ -0,0 +1,32 @@
+// カードの意味（正位置・逆位置の意味、キーワード、絵柄の説明）の日本語・英語のコンテンツ
+// 内容は言語ごとのJSON（card-meanings.<言語>.json）に置き、scripts/validate-card-meanings.mjs でビルド時に検証する
+import meaningsEnJson from '@/src/lib/card-meanings.en.json';
+import meaningsJaJson from '@/src/lib/card-meanings.ja.json';
+import type { Locale } from '@/src/lib/i18n';
+
+// 正位置または逆位置の意味
+export interface OrientedMeaning {
+  keywords: string[];
+  meaning: string; // 短い解釈（1〜2文）
+}
+
+export interface CardMeaning {
+  description: string; // 絵柄の短い説明
+  upright: OrientedMeaning;
+  reversed: OrientedMeaning;
+}
+
+interface CardMeaningsFile {
+  locale: Locale;
+  cards: Record<string, CardMeaning>;
+}
+
+const MEANINGS: Record<Locale, CardMeaningsFile> = {
+  ja: meaningsJaJson as CardMeaningsFile,
+  en: meaningsEnJson as CardMeaningsFile,
+};
+
+// カードIDと言語から意味を取得（コンテンツがない場合はundefined）
+export function getCardMeaning(cardId: string, locale: Locale): CardMeaning | undefined {
+  return MEANINGS[locale].cards[cardId];
+}
@@ -0,0 +1,123 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// 静止画のカード認識（カードの検出 → 切り出し・透視補正 → 読み込んだデッキとのマッチング）
+// Web Workerと評価スクリプト（scripts/evaluate.ts）の両方から使い、ブラウザとNode.jsで同じ処理を行う
+import { detectCardRects, enhanceContrast, type DetectedRect, type DetectionStats } from '@/src/lib/cardDetection';
+import { canonicalCardRotation, warpCardToCanonical } from '@/src/lib/cardGeometry';
+import { matchCandidates, type MatchResult, type MatchTiming } from '@/src/lib/cardMatching';
+import type { FeatureStrategy } from '@/src/lib/featureStrategies';
+import { createLogger } from '@/src/lib/logger';
+import type { MasterData } from '@/src/lib/masterData';
+
+const log = createLogger('matching');
+
+// 静止画の長辺の最大ピクセル数（大きな写真はカメラ映像と同程度に縮小してから検出する）
+export const MAX_STILL_IMAGE_SIDE = 1920;
+
+// 1つのデッキのマスターデータ
+export interface DeckMasterData {
+  id: string;
+  cards: Map<string, MasterData>;
+}
+
+// 1枚の画像のマッチング結果（候補はdeckIdのデッキのもの）
+export type DeckMatchResult = MatchResult & { deckId: string };
+
+// 静止画から検出したカード（cropsはrectsと同じ順のRGBAのMatで、呼び出し側でdelete()すること）
+export interface StillCardDetection {
+  rects: DetectedRect[]; // 単一カードモードでは最大1件、複数カードモードでは読み順
+  crops: any[];
+  stats: DetectionStats;
+}
+
+// 静止画の認識結果
+export interface StillImageRecognition {
+  rects: DetectedRect[];
+  stats: DetectionStats;
+  detectMs: number;
+  results: DeckMatchResult[]; // 複数カードモードではカードごと（読み順）、それ以外は1件
+}
+
+export interface RecognitionOptions {
+  multiCard: boolean;
+  prefilterTopK: number;
+}
+
+// 静止画を検出する前に縮小する大きさ（長辺がMAX_STILL_IMAGE_SIDEを超えない場合はそのまま）
+export function stillImageSize(width: number, height: number): { width: number; height: number } {
+  const scale = Math.min(1, MAX_STILL_IMAGE_SIDE / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+}
+
+// RGBAの静止画からカードを検出し、正面・縦長のカード画像に補正する
+// ライブプレビューと同じ検出処理を行うが、1枚きりの画像のためトラッカーでの平滑化は行わない
+export function detectStillCards(cv: OpenCV, src: any, multiCard: boolean): StillCardDetection {
+  const contrast = enhanceContrast(cv, src);
+  try {
+    const { rects, ...stats } = detectCardRects(cv, contrast, multiCard);
+    const crops = rects.map((rect) => warpCardToCanonical(cv, src, rect.points));
+    return { rects, crops, stats };
+  } finally {
+    contrast.delete();
+  }
+}
+
+// 複数デッキの処理時間を合計
+function sumTimings(timings: MatchTiming[]): MatchTiming {
+  return timings.reduce((sum, t) => ({
+    prefilterMs: sum.prefilterMs + t.prefilterMs,
+    featuresMs: sum.featuresMs + t.featuresMs,
+    matchingMs: sum.matchingMs + t.matchingMs,
+    totalMs: sum.totalMs + t.totalMs,
+  }));
+}
+
+// 1枚の画像を読み込み中の各デッキとマッチングし、1位の候補のスコアが最も高いデッキの結果を返す
+export function matchAcrossDecks(
+  cv: OpenCV,
+  src: any,
+  decks: DeckMasterData[],
+  strategy: FeatureStrategy,
+  prefilterTopK: number,
+  frameRotation: number = 0
+): DeckMatchResult {
+  const results = decks.map((deck) => ({
+    ...matchCandidates(cv, src, deck.cards, strategy, { prefilterTopK, frameRotation }),
+    deckId: deck.id,
+  }));
+  const topScore = (result: DeckMatchResult) => result.candidates[0]?.score ?? 0;
+  const best = results.reduce((a, b) => (topScore(b) > topScore(a) ? b : a));
+
+  if (results.length > 1) {
+    log.info(
+      `デッキ自動判別: ${best.deckId} (` +
+      results.map((r) => `${r.deckId}: ${topScore(r)}`).join(', ') +
+      ')'
+    );
+  }
+  return { ...best, timing: sumTimings(results.map((r) => r.timing)) };
+}
+
+// 画像ファイルを読み込んだときと同じ手順で静止画を認識する（useTarotReaderのanalyzeImageFileと対応）
+// 単一カードは切り出し画像（検出できなければ画像全体）、複数カードはカードごとの切り出し画像をマッチングする
+export function recognizeStillImage(
+  cv: OpenCV,
+  src: any,
+  decks: DeckMasterData[],
+  strategy: FeatureStrategy,
+  { multiCard, prefilterTopK }: RecognitionOptions
+): StillImageRecognition {
+  const startedAt = performance.now();
+  const { rects, crops, stats } = detectStillCards(cv, src, multiCard);
+  const detectMs = Math.round(performance.now() - startedAt);
+
+  try {
+    const targets = multiCard && crops.length > 0 ? crops : [crops[0] ?? src];
+    const results = targets.map((target, i) => {
+      const frameRotation = rects[i] ? canonicalCardRotation(rects[i].points) : 0;
+      return matchAcrossDecks(cv, target, decks, strategy, prefilterTopK, frameRotation);
+    });
+    return { rects, stats, detectMs, results };
+  } finally {
+    crops.forEach((crop) => crop.delete());
+  }
+}
@@ -0,0 +1,150 @@
+// ビルド時に計算済みのマスター画像特徴量データベース（scripts/generate-descriptors.ts が生成）
+// 起動時にマスター画像をダウンロードして特徴量を計算し直す代わりに、ここからcv.Matへ直接読み込む
+import { getCardDisplayName } from '@/src/lib/cardCatalogue';
+import type { MasterData, MasterImageData } from '@/src/lib/masterData';
+import type { FeatureStrategy, FeatureStrategyId } from '@/src/lib/featureStrategies';
+import type { GlobalSignature } from '@/src/lib/globalSignature';
+import { createLogger } from '@/src/lib/logger';
+
+const log = createLogger('loading');
+
+// データ形式のバージョン（形式を変更したら上げる）
+export const DESCRIPTOR_DATABASE_FORMAT = 4;
+
+// 1つのマスター画像の計算済み特徴量
+export interface DescriptorDatabaseImage {
+  file: string;
+  width: number;
+  height: number;
+  keypoints: number[]; // 特徴点の座標 [x0, y0, x1, y1, ...]
+  descriptorCols: number; // 1特徴点あたりのバイト数（ORBは32、AKAZEは61、BRISKは64）
+  descriptors: string; // 全特徴点の記述子（CV_8Uのバイナリ記述子）をbase64で連結したもの
+  signature: GlobalSignature;
+}
+
+export interface DescriptorDatabase {
+  format: number;
+  strategy: FeatureStrategyId;
+  params: Record<string, number>;
+  cards: Record<string, DescriptorDatabaseImage[]>; // カードID → 画像ごとの特徴量
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // String.fromCharCodeの引数の上限を避けるため分割して変換
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// デッキ・戦略ごとの計算済み特徴量のURL
+export function descriptorDatabaseUrl(deckId: string, strategyId: FeatureStrategyId, baseUrl: string = '/lib'): string {
+  return `${baseUrl}/master-descriptors-${deckId}-${strategyId}.json`;
+}
+
+// 空のデータベースを作成
+export function createDescriptorDatabase(strategy: FeatureStrategy): DescriptorDatabase {
+  return {
+    format: DESCRIPTOR_DATABASE_FORMAT,
+    strategy: strategy.id,
+    params: strategy.params,
+    cards: {},
+  };
+}
+
+// マスター画像の特徴量をデータベースの形式に変換
+export function serializeMasterImage(image: MasterImageData): DescriptorDatabaseImage {
+  return {
+    file: image.file,
+    width: image.width,
+    height: image.height,
+    // 座標は0.1px単位に丸めてサイズを抑える
+    keypoints: image.keypoints.flatMap((p) => [Math.round(p.x * 10) / 10, Math.round(p.y * 10) / 10]),
+    descriptorCols: image.descriptors.cols,
+    descriptors: bytesToBase64(image.descriptors.data),
+    signature: image.signature,
+  };
+}
+
+// データベースが指定した戦略（検出器とパラメータ）で作られたものか確認
+export function isDescriptorDatabaseCompatible(database: DescriptorDatabase, strategy: FeatureStrategy): boolean {
+  return (
+    database.format === DESCRIPTOR_DATABASE_FORMAT &&
+    database.strategy === strategy.id &&
+    JSON.stringify(database.params) === JSON.stringify(strategy.params)
+  );
+}
+
+// 計算済み特徴量のJSONを読み込む
+export async function fetchDescriptorDatabase(url: string): Promise<DescriptorDatabase> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${url} の読み込みに失敗しました: ${response.status}`);
+  }
+  return response.json();
+}
+
+// 1つのマスター画像の計算済み特徴量をcv.Matに読み込む
+function deserializeMasterImage(cv: OpenCV, image: DescriptorDatabaseImage): MasterImageData {
+  const bytes = base64ToBytes(image.descriptors);
+  const rows = image.keypoints.length / 2;
+  if (rows * image.descriptorCols !== bytes.length) {
+    throw new Error(`${image.file} の記述子のサイズが特徴点の数と一致しません`);
+  }
+
+  const descriptors = new cv.Mat(rows, image.descriptorCols, cv.CV_8U);
+  descriptors.data.set(bytes);
+
+  const keypoints = [];
+  for (let i = 0; i < image.keypoints.length; i += 2) {
+    keypoints.push({ x: image.keypoints[i], y: image.keypoints[i + 1] });
+  }
+  return {
+    file: image.file,
+    width: image.width,
+    height: image.height,
+    keypoints,
+    descriptors,
+    signature: image.signature,
+  };
+}
+
+// 計算済み特徴量からマスターデータを構築
+// 有効な画像が1枚もないカードは含めない
+export function loadDescriptorDatabase(cv: OpenCV, database: DescriptorDatabase): Map<string, MasterData> {
+  const masterDataMap = new Map<string, MasterData>();
+  const cardIds = Object.keys(database.cards);
+
+  for (const cardId of cardIds) {
+    const images: MasterImageData[] = [];
+    for (const image of database.cards[cardId]) {
+      try {
+        images.push(deserializeMasterImage(cv, image));
+      } catch (error) {
+        log.error(`✗ ${cardId}の画像(${image.file})の特徴量読み込みエラー:`, error);
+      }
+    }
+
+    if (images.length > 0) {
+      const displayName = getCardDisplayName(cardId);
+      masterDataMap.set(cardId, { images, displayName });
+      const totalKeypoints = images.reduce((sum, img) => sum + img.keypoints.length, 0);
+      log.debug(`✓ ${displayName} (${cardId}): ${images.length} 枚の画像、合計 ${totalKeypoints} 個の特徴点（計算済み）`);
+    } else {
+      log.warn(`⚠ ${cardId}: 有効な画像が1枚も見つかりませんでした`);
+    }
+  }
+
+  log.info(`計算済み特徴量の読み込みが完了しました: ${masterDataMap.size}/${cardIds.length} 枚のカードをロード`);
+  return masterDataMap;
+}
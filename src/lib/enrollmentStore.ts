@@ -0,0 +1,103 @@
+// アプリ内で登録したマスター画像（登録サンプル）の保存とエクスポート・インポート
+// 特徴量は戦略ごとに異なるため、切り出し画像そのものを保存し、読み込むたびにWorkerで計算する
+import { ENROLLED_SAMPLES_STORE, withStore } from '@/src/lib/appDatabase';
+import { getCardMetadata } from '@/src/lib/cardCatalogue';
+import { isValidDeckId } from '@/src/lib/masterData';
+
+export interface EnrolledSample {
+  id: string;
+  deckId: string;
+  cardId: string;
+  image: Blob; // 切り出し・透視補正したカード画像（PNG）
+  createdAt: number; // 登録日時（エポックミリ秒）
+}
+
+// エクスポートファイルの形式のバージョン（形式を変更したら上げる）
+export const ENROLLMENT_EXPORT_FORMAT = 1;
+
+// エクスポートファイルの形式（scripts/import-enrollment.mjs でリポジトリのマスター画像に取り込める）
+export interface EnrollmentExport {
+  format: number;
+  samples: Array<{
+    id: string;
+    deckId: string;
+    cardId: string;
+    createdAt: number;
+    file: string; // public/master/<デッキID>/<カードID>/ に保存する際のファイル名
+    image: string; // PNGのデータURL
+  }>;
+}
+
+// 登録サンプルを保存する際のファイル名
+export function enrolledSampleFileName(sample: Pick<EnrolledSample, 'id' | 'cardId'>): string {
+  return `${sample.cardId}_enrolled_${sample.id.slice(0, 8)}.png`;
+}
+
+// 保存済みの登録サンプル（登録順）
+export async function listEnrolledSamples(): Promise<EnrolledSample[]> {
+  const samples = await withStore<EnrolledSample[]>(ENROLLED_SAMPLES_STORE, 'readonly', (store) => store.getAll());
+  return samples.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export function saveEnrolledSample(sample: EnrolledSample): Promise<IDBValidKey> {
+  return withStore(ENROLLED_SAMPLES_STORE, 'readwrite', (store) => store.put(sample));
+}
+
+export function deleteEnrolledSample(id: string): Promise<undefined> {
+  return withStore(ENROLLED_SAMPLES_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+function blobToDataURL(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// 登録サンプルをエクスポート用の形式に変換
+export async function exportEnrolledSamples(samples: EnrolledSample[]): Promise<EnrollmentExport> {
+  return {
+    format: ENROLLMENT_EXPORT_FORMAT,
+    samples: await Promise.all(samples.map(async (sample) => ({
+      id: sample.id,
+      deckId: sample.deckId,
+      cardId: sample.cardId,
+      createdAt: sample.createdAt,
+      file: enrolledSampleFileName(sample),
+      image: await blobToDataURL(sample.image),
+    }))),
+  };
+}
+
+// エクスポートファイルの内容を検証して登録サンプルに変換（不正な場合は例外を投げる）
+export async function parseEnrollmentExport(data: unknown): Promise<EnrolledSample[]> {
+  const exported = data as Partial<EnrollmentExport> | null;
+  if (exported?.format !== ENROLLMENT_EXPORT_FORMAT || !Array.isArray(exported.samples)) {
+    throw new Error(`登録サンプルのファイルではないか、形式（バージョン ${ENROLLMENT_EXPORT_FORMAT}）が異なります`);
+  }
+
+  return Promise.all(exported.samples.map(async (sample, index) => {
+    if (typeof sample?.id !== 'string' || typeof sample.deckId !== 'string' || typeof sample.image !== 'string') {
+      throw new Error(`${index + 1} 件目の登録サンプルの内容が不正です`);
+    }
+    if (!isValidDeckId(sample.deckId)) {
+      throw new Error(`${index + 1} 件目の登録サンプルのデッキID（${sample.deckId}）が不正です`);
+    }
+    if (!getCardMetadata(sample.cardId)) {
+      throw new Error(`${index + 1} 件目の登録サンプルのカードID（${sample.cardId}）がカードカタログにありません`);
+    }
+    if (!sample.image.startsWith('data:image/')) {
+      throw new Error(`${index + 1} 件目の登録サンプルの画像が不正です`);
+    }
+    const image = await (await fetch(sample.image)).blob();
+    return {
+      id: sample.id,
+      deckId: sample.deckId,
+      cardId: sample.cardId,
+      image,
+      createdAt: typeof sample.createdAt === 'number' ? sample.createdAt : Date.now(),
+    };
+  }));
+}
@@ -0,0 +1,98 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// 特徴量の抽出・マッチング戦略（検出器ごとのパラメータとマッチングの閾値）
+// マスターデータは使用中の戦略で構築する必要がある
+
+export type FeatureStrategyId = 'orb' | 'akaze' | 'brisk';
+
+export interface FeatureStrategy {
+  id: FeatureStrategyId;
+  label: string;
+  params: Record<string, number>; // 検出器のパラメータ（計算済み特徴量の互換性確認にも使用）
+  maxFeatures: number; // 1枚の画像から残す特徴点の最大数（応答の強い順）
+  ratioThreshold: number; // Lowe's Ratio Test: distance1 < ratioThreshold * distance2
+  minGoodMatches: number; // ホモグラフィ検証を行うのに必要なGood Matches数
+  minInliers: number; // カードと一致したとみなすのに必要なRANSACのインライア数
+  createDetector: (cv: OpenCV) => any; // cv.Feature2Dの検出器（呼び出し側でdelete()すること）
+  getNormType: (cv: OpenCV) => number; // 記述子の比較に使う距離
+}
+
+// ORB作成ヘルパー関数
+export function createORB(cv: OpenCV, maxFeatures: number = 500): any {
+  if (cv.ORB_create) {
+    return cv.ORB_create(maxFeatures);
+  } else if (cv.ORB && typeof cv.ORB === 'function') {
+    return new cv.ORB(maxFeatures);
+  } else if (cv.ORB && cv.ORB.create) {
+    return cv.ORB.create(maxFeatures);
+  } else {
+    throw new Error('ORB is not available in this OpenCV.js build. Make sure features2d module is included.');
+  }
+}
+
+// AKAZE作成ヘルパー関数
+export function createAKAZE(cv: OpenCV, threshold: number): any {
+  if (cv.AKAZE && typeof cv.AKAZE === 'function') {
+    const akaze = new cv.AKAZE();
+    akaze.setThreshold(threshold);
+    return akaze;
+  } else {
+    throw new Error('AKAZE is not available in this OpenCV.js build. Make sure features2d module is included.');
+  }
+}
+
+// BRISK作成ヘルパー関数
+export function createBRISK(cv: OpenCV, threshold: number, octaves: number, patternScale: number): any {
+  if (cv.BRISK && typeof cv.BRISK === 'function') {
+    return new cv.BRISK(threshold, octaves, patternScale);
+  } else {
+    throw new Error('BRISK is not available in this OpenCV.js build. Make sure features2d module is included.');
+  }
+}
+
+// 検出器の違いを比較しやすいよう、特徴点の最大数はすべての戦略で揃える
+const MAX_FEATURES = 500;
+const ORB_PARAMS = { maxFeatures: MAX_FEATURES };
+const AKAZE_PARAMS = { maxFeatures: MAX_FEATURES, threshold: 0.001 };
+const BRISK_PARAMS = { maxFeatures: MAX_FEATURES, threshold: 30, octaves: 3, patternScale: 1.0 };
+
+export const FEATURE_STRATEGIES: Record<FeatureStrategyId, FeatureStrategy> = {
+  orb: {
+    id: 'orb',
+    label: 'ORB',
+    params: ORB_PARAMS,
+    maxFeatures: ORB_PARAMS.maxFeatures,
+    ratioThreshold: 0.7,
+    minGoodMatches: 10,
+    minInliers: 8,
+    createDetector: (cv) => createORB(cv, ORB_PARAMS.maxFeatures),
+    getNormType: (cv) => cv.NORM_HAMMING,
+  },
+  akaze: {
+    id: 'akaze',
+    label: 'AKAZE',
+    params: AKAZE_PARAMS,
+    maxFeatures: AKAZE_PARAMS.maxFeatures,
+    ratioThreshold: 0.8,
+    minGoodMatches: 10,
+    minInliers: 8,
+    createDetector: (cv) => createAKAZE(cv, AKAZE_PARAMS.threshold),
+    getNormType: (cv) => cv.NORM_HAMMING,
+  },
+  brisk: {
+    id: 'brisk',
+    label: 'BRISK',
+    params: BRISK_PARAMS,
+    maxFeatures: BRISK_PARAMS.maxFeatures,
+    ratioThreshold: 0.75,
+    minGoodMatches: 10,
+    minInliers: 8,
+    createDetector: (cv) => createBRISK(cv, BRISK_PARAMS.threshold, BRISK_PARAMS.octaves, BRISK_PARAMS.patternScale),
+    getNormType: (cv) => cv.NORM_HAMMING,
+  },
+};
+
+export const DEFAULT_FEATURE_STRATEGY: FeatureStrategyId = 'orb';
+
+export function isFeatureStrategyId(value: string): value is FeatureStrategyId {
+  return value in FEATURE_STRATEGIES;
+}
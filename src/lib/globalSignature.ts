@@ -0,0 +1,150 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// 画像全体の大まかな特徴（色ヒストグラムと知覚ハッシュ）による高速な絞り込み
+// 特徴点マッチングの前段で、撮影画像に似ているマスターカードを上位K枚に絞り込む
+import type { MasterData } from '@/src/lib/masterData';
+
+export interface GlobalSignature {
+  histogram: number[]; // HSVの色相×彩度の2次元ヒストグラム（合計が1になるよう正規化）
+  hash: string; // 差分ハッシュ（dHash、64ビットを16進数で表現）
+  reversedHash: string; // 180度回転した画像の差分ハッシュ（逆位置のカードとの比較用）
+}
+
+// 1枚のカードの絞り込みスコア（カード内の画像のうち最も似ているもの）
+export interface PrefilterRanking {
+  cardId: string;
+  score: number; // 0〜1（大きいほど似ている）
+  histogramSimilarity: number; // Bhattacharyya係数（0〜1）
+  hashDistance: number; // ハミング距離（0〜64）
+}
+
+const HUE_BINS = 16;
+const SATURATION_BINS = 8;
+// dHashは9x8に縮小した画像の横方向の隣接画素の大小比較で64ビットを得る
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+const HASH_BITS = (HASH_WIDTH - 1) * HASH_HEIGHT;
+// ヒストグラムとハッシュの重み
+const HISTOGRAM_WEIGHT = 0.5;
+
+// 色相×彩度のヒストグラムを計算
+function computeHistogram(cv: OpenCV, src: any): number[] {
+  const rgb = new cv.Mat();
+  const hsv = new cv.Mat();
+  const channels = new cv.MatVector();
+  const mask = new cv.Mat();
+  const hist = new cv.Mat();
+
+  try {
+    cv.cvtColor(src, rgb, cv.COLOR_RGBA2RGB);
+    cv.cvtColor(rgb, hsv, cv.COLOR_RGB2HSV);
+    channels.push_back(hsv);
+    cv.calcHist(channels, [0, 1], mask, hist, [HUE_BINS, SATURATION_BINS], [0, 180, 0, 256]);
+
+    const values = Array.from<number>(hist.data32F);
+    const total = values.reduce((sum, v) => sum + v, 0);
+    return values.map((v) => (total > 0 ? Math.round((v / total) * 1e5) / 1e5 : 0));
+  } finally {
+    rgb.delete();
+    hsv.delete();
+    channels.delete();
+    mask.delete();
+    hist.delete();
+  }
+}
+
+// 縮小したグレースケール画像から差分ハッシュを計算
+function differenceHash(pixels: ArrayLike<number>): string {
+  let hex = '';
+  let nibble = 0;
+  let bitCount = 0;
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const left = pixels[y * HASH_WIDTH + x];
+      const right = pixels[y * HASH_WIDTH + x + 1];
+      nibble = (nibble << 1) | (left < right ? 1 : 0);
+      bitCount++;
+      if (bitCount % 4 === 0) {
+        hex += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hex;
+}
+
+// 差分ハッシュ（正位置・逆位置）を計算
+function computeHashes(cv: OpenCV, src: any): { hash: string; reversedHash: string } {
+  const gray = new cv.Mat();
+  const small = new cv.Mat();
+
+  try {
+    cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY);
+    cv.resize(gray, small, new cv.Size(HASH_WIDTH, HASH_HEIGHT), 0, 0, cv.INTER_AREA);
+    const pixels: Uint8Array = small.data;
+    // 180度回転は画素の並びを逆順にしたものと等しい
+    const reversed = Array.from(pixels).reverse();
+    return { hash: differenceHash(pixels), reversedHash: differenceHash(reversed) };
+  } finally {
+    gray.delete();
+    small.delete();
+  }
+}
+
+// RGBA画像の大まかな特徴を計算
+export function computeGlobalSignature(cv: OpenCV, src: any): GlobalSignature {
+  return {
+    histogram: computeHistogram(cv, src),
+    ...computeHashes(cv, src),
+  };
+}
+
+function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+// 撮影画像とマスター画像の大まかな類似度
+export function compareGlobalSignatures(
+  query: GlobalSignature,
+  master: GlobalSignature
+): Omit<PrefilterRanking, 'cardId'> {
+  let histogramSimilarity = 0;
+  for (let i = 0; i < query.histogram.length; i++) {
+    histogramSimilarity += Math.sqrt(query.histogram[i] * (master.histogram[i] ?? 0));
+  }
+  histogramSimilarity = Math.min(1, histogramSimilarity);
+
+  // カードが逆位置の場合もあるため、回転した方のハッシュとも比較する
+  const hashDistance = Math.min(
+    hammingDistance(query.hash, master.hash),
+    hammingDistance(query.reversedHash, master.hash)
+  );
+
+  const score = HISTOGRAM_WEIGHT * histogramSimilarity + (1 - HISTOGRAM_WEIGHT) * (1 - hashDistance / HASH_BITS);
+  return { score, histogramSimilarity, hashDistance };
+}
+
+// マスターカードを撮影画像との大まかな類似度が高い順に並べる
+export function rankByGlobalSignature(query: GlobalSignature, masterDataMap: Map<string, MasterData>): PrefilterRanking[] {
+  const ranking: PrefilterRanking[] = [];
+  for (const [cardId, master] of masterDataMap.entries()) {
+    let best: PrefilterRanking | null = null;
+    for (const image of master.images) {
+      const result = compareGlobalSignatures(query, image.signature);
+      if (!best || result.score > best.score) {
+        best = { cardId, ...result };
+      }
+    }
+    if (best) {
+      ranking.push(best);
+    }
+  }
+  return ranking.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,123 @@
+// ホモグラフィの退化（鏡像・極端な歪み・画像外への投影など）の検出
+// RANSACが行列を返しても、偶然のマッチから得た行列はカードの形として成り立たないことが多い
+import type { Point } from '@/src/lib/cardGeometry';
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+// マスター画像の四隅が撮影画像の外にはみ出してよい量（撮影画像の幅・高さに対する比率）
+const FRAME_TOLERANCE = 0.25;
+// 投影したカードが撮影画像に占める最小の面積比
+const MIN_AREA_RATIO = 0.02;
+// 投影したカードの向かい合う辺の長さの比の上限（これを超える歪みは退化とみなす）
+const MAX_SIDE_RATIO = 3;
+
+// 3x3行列（行優先）の逆行列（特異な場合はnull）
+function invert3x3(m: ArrayLike<number>): number[] | null {
+  const [a, b, c, d, e, f, g, h, i] = Array.from(m);
+  const A = e * i - f * h;
+  const B = -(d * i - f * g);
+  const C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+  if (!Number.isFinite(det) || Math.abs(det) < 1e-12) {
+    return null;
+  }
+  return [
+    A / det, -(b * i - c * h) / det, (b * f - c * e) / det,
+    B / det, (a * i - c * g) / det, -(a * f - c * d) / det,
+    C / det, -(a * h - b * g) / det, (a * e - b * d) / det,
+  ];
+}
+
+// 点をホモグラフィで変換（無限遠に飛ぶ場合はnull）
+function projectPoint(m: number[], p: Point): Point | null {
+  const w = m[6] * p.x + m[7] * p.y + m[8];
+  if (w <= 1e-9) {
+    return null;
+  }
+  return {
+    x: (m[0] * p.x + m[1] * p.y + m[2]) / w,
+    y: (m[3] * p.x + m[4] * p.y + m[5]) / w,
+  };
+}
+
+function length(a: Point, b: Point): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+// 撮影画像→マスター画像のホモグラフィ（行優先の3x3）が退化していないか確認
+// 退化している場合はその理由を、問題なければnullを返す
+export function findHomographyDegeneracy(
+  homography: ArrayLike<number>,
+  querySize: ImageSize,
+  masterSize: ImageSize
+): string | null {
+  // 左上2x2の行列式が負の場合は鏡像（カードが裏返しに写ることはない）
+  const linearDet = homography[0] * homography[4] - homography[1] * homography[3];
+  if (!(linearDet > 0)) {
+    return '鏡像の変換';
+  }
+
+  const inverse = invert3x3(homography);
+  if (!inverse) {
+    return '逆変換できない行列';
+  }
+
+  // マスター画像の四隅を撮影画像に投影
+  const corners: Point[] = [
+    { x: 0, y: 0 },
+    { x: masterSize.width, y: 0 },
+    { x: masterSize.width, y: masterSize.height },
+    { x: 0, y: masterSize.height },
+  ];
+  const projected: Point[] = [];
+  for (const corner of corners) {
+    const point = projectPoint(inverse, corner);
+    if (!point) {
+      return '四隅が無限遠に投影される';
+    }
+    projected.push(point);
+  }
+
+  // 四隅が撮影画像の中（許容範囲内）に収まっているか
+  const marginX = querySize.width * FRAME_TOLERANCE;
+  const marginY = querySize.height * FRAME_TOLERANCE;
+  const isOutside = projected.some(
+    (p) => p.x < -marginX || p.x > querySize.width + marginX || p.y < -marginY || p.y > querySize.height + marginY
+  );
+  if (isOutside) {
+    return '四隅が撮影画像の外に投影される';
+  }
+
+  // 投影した四角形が凸で、ねじれていないか（外積の符号がすべて同じ）
+  let positive = 0;
+  let area = 0;
+  for (let i = 0; i < 4; i++) {
+    const p0 = projected[i];
+    const p1 = projected[(i + 1) % 4];
+    const p2 = projected[(i + 2) % 4];
+    const cross = (p1.x - p0.x) * (p2.y - p1.y) - (p1.y - p0.y) * (p2.x - p1.x);
+    if (cross > 0) positive++;
+    area += p0.x * p1.y - p1.x * p0.y;
+  }
+  if (positive !== 0 && positive !== 4) {
+    return '四角形がねじれている';
+  }
+  if (Math.abs(area) / 2 < querySize.width * querySize.height * MIN_AREA_RATIO) {
+    return '投影されたカードが小さすぎる';
+  }
+
+  // 向かい合う辺の長さが極端に異なる場合は歪みすぎ
+  const [tl, tr, br, bl] = projected;
+  const horizontal = length(tl, tr) / length(bl, br);
+  const vertical = length(tl, bl) / length(tr, br);
+  for (const ratio of [horizontal, vertical]) {
+    if (!Number.isFinite(ratio) || ratio > MAX_SIDE_RATIO || ratio < 1 / MAX_SIDE_RATIO) {
+      return '歪みが大きすぎる';
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,58 @@
+// UIの文言の多言語化（日本語・英語）
+// 文言は言語ごとのJSON（messages.<言語>.json）に置き、キーと {name} 形式の差し込みで参照する
+import messagesEn from '@/src/lib/messages.en.json';
+import messagesJa from '@/src/lib/messages.ja.json';
+
+export type Locale = 'ja' | 'en';
+
+export const LOCALES: Locale[] = ['ja', 'en'];
+export const DEFAULT_LOCALE: Locale = 'ja';
+// 選択した言語を保存するクッキー（サーバーでも読み取り、<html lang> とメタデータに反映する）
+export const LOCALE_COOKIE = 'tarot-locale';
+// 言語の切り替えに表示する名前（それぞれの言語で表記する）
+export const LOCALE_NAMES: Record<Locale, string> = {
+  ja: '日本語',
+  en: 'English',
+};
+
+// 日本語の文言を基準とし、英語にも同じキーが揃っていることを型で検証する
+export type MessageKey = keyof typeof messagesJa;
+export type MessageParams = Record<string, string | number>;
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = {
+  ja: messagesJa,
+  en: messagesEn,
+};
+
+// 言語ごとの文言（スプレッドの位置の名前など、データに持たせるもの）
+export type LocalizedText = Record<Locale, string>;
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as string[]).includes(value);
+}
+
+// クッキーに保存した言語を優先し、なければブラウザの言語設定（Accept-Language）から選ぶ
+export function negotiateLocale(cookieValue: string | undefined, acceptLanguage: string | null): Locale {
+  if (isLocale(cookieValue)) {
+    return cookieValue;
+  }
+  const preferred = (acceptLanguage ?? '')
+    .split(',')
+    .map((part) => part.split(';')[0].trim().toLowerCase().split('-')[0]);
+  return preferred.find(isLocale) ?? DEFAULT_LOCALE;
+}
+
+// キーに対応する文言を取得し、{name} を params の値で置き換える
+export function translate(locale: Locale, key: MessageKey, params?: MessageParams): string {
+  const message = MESSAGES[locale][key];
+  if (!params) {
+    return message;
+  }
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+export function localize(text: LocalizedText, locale: Locale): string {
+  return text[locale];
+}
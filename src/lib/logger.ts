@@ -0,0 +1,144 @@
+// レベルと名前空間付きのログ
+// コンソールへの出力はレベルで絞り込み（本番ビルドの既定はwarn以上）、warn以上は診断パネル用に直近の分を記録する
+// Workerでは記録をメインスレッドに転送し、メインスレッドの記録にまとめる
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+// コンソールに出力する最低レベル（silentの場合は出力しない）
+export type LogThreshold = LogLevel | 'silent';
+
+export const LOG_THRESHOLDS: LogThreshold[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+export type LogNamespace =
+  | 'loading' // OpenCV.js・マスターデータの読み込み
+  | 'detection' // カードの矩形検出
+  | 'matching' // 特徴点マッチング
+  | 'camera'
+  | 'capture' // 撮影・画像の読み込み
+  | 'enrollment'
+  | 'history'
+  | 'session';
+
+// 記録したログ（診断パネルに表示する）
+export interface LogEntry {
+  id: number;
+  time: number;
+  level: LogLevel;
+  namespace: LogNamespace;
+  message: string;
+}
+
+export interface Logger {
+  debug: (...args: unknown[]) => void;
+  info: (...args: unknown[]) => void;
+  warn: (...args: unknown[]) => void;
+  error: (...args: unknown[]) => void;
+}
+
+const LEVEL_ORDER: Record<LogThreshold, number> = { debug: 0, info: 1, warn: 2, error: 3, silent: 4 };
+
+// 記録する直近のログの件数
+const RECENT_LOG_LIMIT = 50;
+
+// ブラウザで選んだレベルを保存するキー
+const LOG_THRESHOLD_KEY = 'tarot-log-level';
+
+export function isLogThreshold(value: unknown): value is LogThreshold {
+  return typeof value === 'string' && (LOG_THRESHOLDS as string[]).includes(value);
+}
+
+// 既定のレベル（NEXT_PUBLIC_LOG_LEVELで指定できる）
+function defaultThreshold(): LogThreshold {
+  const configured = process.env.NEXT_PUBLIC_LOG_LEVEL;
+  if (isLogThreshold(configured)) {
+    return configured;
+  }
+  return process.env.NODE_ENV === 'production' ? 'warn' : 'debug';
+}
+
+let threshold: LogThreshold = defaultThreshold();
+let recentEntries: LogEntry[] = [];
+let nextEntryId = 1;
+const listeners = new Set<() => void>();
+// 設定されている場合、記録せずにこの関数に渡す（Workerからメインスレッドへの転送）
+let forwarder: ((entry: Omit<LogEntry, 'id'>) => void) | null = null;
+
+export function getLogThreshold(): LogThreshold {
+  return threshold;
+}
+
+export function setLogThreshold(value: LogThreshold) {
+  threshold = value;
+}
+
+// 保存したレベルを読み込んで適用する（保存していない場合は既定のまま）
+export function loadLogThreshold(): LogThreshold {
+  const saved = localStorage.getItem(LOG_THRESHOLD_KEY);
+  if (isLogThreshold(saved)) {
+    threshold = saved;
+  }
+  return threshold;
+}
+
+export function saveLogThreshold(value: LogThreshold) {
+  threshold = value;
+  localStorage.setItem(LOG_THRESHOLD_KEY, value);
+}
+
+export function setLogForwarder(forward: ((entry: Omit<LogEntry, 'id'>) => void) | null) {
+  forwarder = forward;
+}
+
+// 直近のログに追加する（Workerから転送されたログもここに記録する）
+export function recordLogEntry(entry: Omit<LogEntry, 'id'>) {
+  recentEntries = [...recentEntries.slice(-(RECENT_LOG_LIMIT - 1)), { ...entry, id: nextEntryId++ }];
+  listeners.forEach((listener) => listener());
+}
+
+// 直近のログ（古い順、記録のたびに新しい配列になる）
+export function getRecentLogEntries(): LogEntry[] {
+  return recentEntries;
+}
+
+export function clearLogEntries() {
+  recentEntries = [];
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeLogEntries(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function formatArg(arg: unknown): string {
+  if (typeof arg === 'string') {
+    return arg;
+  }
+  if (arg instanceof Error) {
+    return arg.message;
+  }
+  try {
+    return JSON.stringify(arg);
+  } catch {
+    return String(arg);
+  }
+}
+
+export function createLogger(namespace: LogNamespace): Logger {
+  const write = (level: LogLevel) => (...args: unknown[]) => {
+    if (LEVEL_ORDER[level] >= LEVEL_ORDER[threshold]) {
+      console[level](`[${namespace}]`, ...args);
+    }
+    if (level === 'warn' || level === 'error') {
+      const entry = { time: Date.now(), level, namespace, message: args.map(formatArg).join(' ') };
+      if (forwarder) {
+        forwarder(entry);
+      } else {
+        recordLogEntry(entry);
+      }
+    }
+  };
+  return { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') };
+}
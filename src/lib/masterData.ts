@@ -0,0 +1,205 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// マスター画像の特徴量データベース（master-list.jsonに列挙された画像から構築）
+import { getCardDisplayName } from '@/src/lib/cardCatalogue';
+import type { Point } from '@/src/lib/cardGeometry';
+import { computeFeatures, toMasterImageData } from '@/src/lib/cardMatching';
+import type { FeatureStrategy } from '@/src/lib/featureStrategies';
+import { computeGlobalSignature, type GlobalSignature } from '@/src/lib/globalSignature';
+import { createLogger } from '@/src/lib/logger';
+
+const log = createLogger('loading');
+
+// 1つのマスター画像の特徴量データ
+export interface MasterImageData {
+  file: string; // マスター画像のファイル名
+  width: number; // マスター画像の大きさ（ホモグラフィの検証に使用）
+  height: number;
+  keypoints: Point[]; // 特徴点の座標（descriptorsの行と同じ順）
+  descriptors: any; // cv.Mat
+  signature: GlobalSignature; // 特徴点マッチング前の絞り込みに使う大まかな特徴
+}
+
+// 1つのカードの全マスター画像の特徴量データ（配列）
+export interface MasterData {
+  images: MasterImageData[];
+  displayName: string;
+}
+
+// master-list.json の形式のバージョン（形式を変更したら scripts/generate-master-list.mjs と合わせて上げる）
+export const MASTER_MANIFEST_VERSION = 2;
+
+// マニフェストに記録された1つのマスター画像（生成時に検証済み）
+export interface MasterImageEntry {
+  file: string;
+  width: number; // EXIFの向きを反映した大きさ
+  height: number;
+  bytes: number;
+  sha256: string; // ファイルの内容のハッシュ（重複の検出に使用）
+}
+
+// 1つのデッキのマスター画像一覧（カードID → 画像の配列）
+export type MasterList = Record<string, MasterImageEntry[]>;
+
+// master-list.json の形式（デッキID → デッキ名とマスター画像一覧）
+// 画像は public/master/<デッキID>/<カードID>/ に配置する（scripts/generate-master-list.mjs が生成）
+export interface MasterManifest {
+  version: number;
+  decks: Record<string, { name: string; cards: MasterList }>;
+}
+
+// デッキの選択肢として表示する情報
+export interface DeckInfo {
+  id: string;
+  name: string;
+  cardCount: number;
+}
+
+// すべてのデッキのマスターデータを読み込み、撮影画像ごとに最も一致するデッキを判別する選択値
+export const AUTO_DETECT_DECK = 'auto';
+
+// デッキIDはURLやファイル名に使うため、英小文字・数字・ハイフンのみ（scripts/generate-master-list.mjs の DECK_ID_PATTERN と一致させる）
+const DECK_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+// デッキIDとして使える文字列か確認（AUTO_DETECT_DECKは予約済みのため使えない）
+export function isValidDeckId(deckId: string): boolean {
+  return DECK_ID_PATTERN.test(deckId) && deckId !== AUTO_DETECT_DECK;
+}
+
+// RGBAの画素データ（ブラウザのImageDataと同じ形）
+export interface RgbaImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// 画像のパスから画素データを読み込む関数（実行環境ごとに用意する）
+export type RgbaImageLoader = (path: string) => Promise<RgbaImage>;
+
+// master-list.json を読み込む
+export async function fetchMasterManifest(url: string = '/lib/master-list.json'): Promise<MasterManifest> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`master-list.json の読み込みに失敗しました: ${response.status}`);
+  }
+  return response.json();
+}
+
+// 読み込んだマニフェストがこのバージョンのアプリで扱える形式か確認
+// 扱えない場合は理由を、問題なければnullを返す
+export function findManifestIncompatibility(manifest: unknown): string | null {
+  const version = (manifest as Partial<MasterManifest> | null)?.version;
+  if (version === MASTER_MANIFEST_VERSION) {
+    return null;
+  }
+  const found = typeof version === 'number' ? `バージョン ${version}` : 'バージョンなし（旧形式）';
+  return `master-list.json の形式（${found}）に互換性がありません。` +
+    `バージョン ${MASTER_MANIFEST_VERSION} が必要です（npm run generate-master-list で再生成してください）`;
+}
+
+// マニフェストに含まれるデッキの一覧（デッキID順）
+export function listDecks(manifest: MasterManifest): DeckInfo[] {
+  return Object.entries(manifest.decks)
+    .map(([id, deck]) => ({ id, name: deck.name, cardCount: Object.keys(deck.cards).length }))
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+// RGBAのマスター画像から特徴量と絞り込み用の特徴を計算（descriptorsは呼び出し側でdelete()すること）
+export function computeMasterImageData(cv: OpenCV, src: any, strategy: FeatureStrategy, file: string): MasterImageData {
+  const signature = computeGlobalSignature(cv, src);
+  return {
+    file,
+    width: src.cols,
+    height: src.rows,
+    ...toMasterImageData(computeFeatures(cv, src, strategy)),
+    signature,
+  };
+}
+
+// 1つのマスター画像をロードして特徴量を計算
+async function loadMasterImage(
+  cv: OpenCV,
+  cardName: string,
+  imageFile: MasterImageEntry,
+  baseUrl: string,
+  loadImage: RgbaImageLoader,
+  strategy: FeatureStrategy
+): Promise<MasterImageData | null> {
+  const imagePath = `${baseUrl}/${cardName}/${imageFile.file}`;
+  let image: RgbaImage;
+  try {
+    image = await loadImage(imagePath);
+  } catch {
+    log.warn(`✗ ${cardName}の画像が見つかりません: ${imagePath} (スキップします)`);
+    return null;
+  }
+
+  const src = cv.matFromImageData(image);
+  try {
+    return computeMasterImageData(cv, src, strategy, imageFile.file);
+  } catch (error) {
+    log.error(`✗ ${cardName}の画像(${imagePath})の特徴量計算エラー:`, error);
+    return null;
+  } finally {
+    src.delete();
+  }
+}
+
+// マスターデータのロードと特徴量計算（フォルダベースの複数画像ロード）
+// 有効な画像が1枚もないカードは含めない
+export async function loadMasterData(
+  cv: OpenCV,
+  masterList: MasterList,
+  loadImage: RgbaImageLoader,
+  strategy: FeatureStrategy,
+  baseUrl: string = '/master'
+): Promise<Map<string, MasterData>> {
+  const masterDataMap = new Map<string, MasterData>();
+  log.info(`マスターリストを読み込みました: ${Object.keys(masterList).length} 枚のカード`);
+
+  // 各カードの全画像をロード
+  const cardNames = Object.keys(masterList);
+  const cardLoadPromises = cardNames.map(async (cardName) => {
+    const results = await Promise.all(
+      masterList[cardName].map((imageFile) => loadMasterImage(cv, cardName, imageFile, baseUrl, loadImage, strategy))
+    );
+    const imageDataArray = results.filter((r): r is MasterImageData => r !== null);
+
+    if (imageDataArray.length > 0) {
+      const displayName = getCardDisplayName(cardName);
+      masterDataMap.set(cardName, {
+        images: imageDataArray,
+        displayName,
+      });
+
+      const totalKeypoints = imageDataArray.reduce((sum, img) => sum + img.keypoints.length, 0);
+      log.debug(`✓ ${displayName} (${cardName}): ${imageDataArray.length} 枚の画像、合計 ${totalKeypoints} 個の特徴点`);
+      return true;
+    } else {
+      log.warn(`⚠ ${cardName}: 有効な画像が1枚も見つかりませんでした`);
+      return false;
+    }
+  });
+
+  const results = await Promise.all(cardLoadPromises);
+  const successCount = results.filter((r) => r).length;
+  log.info(`マスターデータの初期化が完了しました: ${successCount}/${cardNames.length} 枚のカードをロード`);
+
+  return masterDataMap;
+}
+
+// Map内のcv.Matオブジェクトをすべて削除
+export function releaseMasterData(masterDataMap: Map<string, MasterData>): void {
+  for (const [cardId, masterData] of masterDataMap.entries()) {
+    try {
+      // 各カードの全画像の特徴量を解放
+      for (const imageData of masterData.images) {
+        if (imageData.descriptors) {
+          imageData.descriptors.delete();
+        }
+      }
+    } catch (error) {
+      log.warn(`${cardId}のメモリ解放エラー:`, error);
+    }
+  }
+  masterDataMap.clear();
+}
@@ -0,0 +1,51 @@
+// マッチング結果の信頼度の算出と「該当カードなし」の判定
+// 正規化スコアはマスター画像や戦略によって大きさが変わるため、それだけではカードを特定できたか判断できない
+import type { Candidate } from '@/src/lib/cardMatching';
+
+export interface MatchConfidence {
+  value: number; // 0〜1（1位の候補が正しい確からしさの目安）
+  margin: number; // 1位と2位のスコア差（1位のスコアに対する比率、0〜1）
+  isConfident: boolean; // falseの場合は「該当カードなし」として扱う
+}
+
+export interface ConfidenceThresholds {
+  minScore: number; // 1位の候補に必要な正規化スコア（%）
+  minMargin: number; // 1位と2位のスコア差の最小値（比率）
+  minConfidence: number; // 信頼度の最小値
+}
+
+export const DEFAULT_CONFIDENCE_THRESHOLDS: ConfidenceThresholds = {
+  minScore: 5,
+  minMargin: 0.3,
+  minConfidence: 0.4,
+};
+
+// このスコア（%）以上であればスコアの面では十分に一致しているとみなす
+const SATURATION_SCORE = 20;
+// ホモグラフィで幾何的な整合性が確認できなかった場合の信頼度の係数
+const UNVERIFIED_FACTOR = 0.5;
+
+// スコア順の候補から信頼度を算出（候補がない場合はnull）
+export function assessConfidence(
+  candidates: Candidate[],
+  thresholds: ConfidenceThresholds = DEFAULT_CONFIDENCE_THRESHOLDS
+): MatchConfidence | null {
+  const [best, second] = candidates;
+  if (!best) {
+    return null;
+  }
+
+  const scoreFactor = Math.min(1, best.score / SATURATION_SCORE);
+  const margin = best.score > 0 ? (best.score - (second?.score ?? 0)) / best.score : 0;
+  const verificationFactor = best.orientation ? 1 : UNVERIFIED_FACTOR;
+  const value = Math.round(scoreFactor * (0.5 + 0.5 * margin) * verificationFactor * 100) / 100;
+
+  return {
+    value,
+    margin: Math.round(margin * 100) / 100,
+    isConfident:
+      best.score >= thresholds.minScore &&
+      margin >= thresholds.minMargin &&
+      value >= thresholds.minConfidence,
+  };
+}
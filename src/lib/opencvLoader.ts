@@ -0,0 +1,70 @@
+// OpenCV.jsスクリプトの取得（タイムアウト・整合性チェック付き）
+
+// opencv-asset.json の形式（コミット済みの固定値。npm run update-opencv-pin で更新し、scripts/copy-opencv.mjs が配置時に照合する）
+export interface OpenCvAsset {
+  version: string;
+  path: string;
+  integrity: string; // "sha384-<base64>" 形式
+}
+
+const DIGEST_ALGORITHMS: Record<string, string> = {
+  sha256: 'SHA-256',
+  sha384: 'SHA-384',
+  sha512: 'SHA-512',
+};
+
+// Promiseに制限時間を設ける
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(message)), timeoutMs);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+// 取得したスクリプトが整合性ハッシュと一致するか検証
+async function verifyIntegrity(buffer: ArrayBuffer, integrity: string): Promise<void> {
+  const separator = integrity.indexOf('-');
+  const algorithm = DIGEST_ALGORITHMS[integrity.slice(0, separator)];
+  if (separator < 0 || !algorithm) {
+    throw new Error(`未対応の整合性ハッシュ形式です: ${integrity}`);
+  }
+
+  const digest = new Uint8Array(await crypto.subtle.digest(algorithm, buffer));
+  const actual = btoa(String.fromCharCode(...digest));
+  if (actual !== integrity.slice(separator + 1)) {
+    throw new Error('OpenCV.jsの整合性チェックに失敗しました（ファイルが破損しているか、想定と異なるバージョンです）');
+  }
+}
+
+// スクリプトを取得して整合性を確認し、importScriptsで読み込めるBlob URLを返す
+// 返したBlob URLは読み込み後に URL.revokeObjectURL() で解放すること
+export async function fetchVerifiedScript(url: string, integrity: string, timeoutMs: number): Promise<string> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`OpenCV.jsの取得に失敗しました: ${response.status}`);
+    }
+    const buffer = await response.arrayBuffer();
+    await verifyIntegrity(buffer, integrity);
+    return URL.createObjectURL(new Blob([buffer], { type: 'text/javascript' }));
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`OpenCV.jsの取得がタイムアウトしました（${timeoutMs / 1000}秒）`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,16 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// OpenCV.js（Emscriptenモジュール）のランタイム初期化を待つ
+
+// ビルドによってcvは「初期化済みのモジュール」「thenableなモジュール」「onRuntimeInitializedを持つモジュール」のいずれかになる
+// thenableをそのままPromiseの解決値にすると無限に待ち続けるため、オブジェクトで包んで返す
+export function waitForOpenCv(cvModule: any): Promise<{ cv: OpenCV }> {
+  return new Promise((resolve) => {
+    if (cvModule.Mat) {
+      resolve({ cv: cvModule });
+    } else if (typeof cvModule.then === 'function') {
+      cvModule.then((cv: OpenCV) => resolve({ cv }));
+    } else {
+      cvModule.onRuntimeInitialized = () => resolve({ cv: cvModule });
+    }
+  });
+}
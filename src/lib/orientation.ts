@@ -0,0 +1,52 @@
+// ホモグラフィ行列とカードの写り方からカードの向き（正位置/逆位置/横向き）を推定する
+
+export interface CardOrientation {
+  isReversed: boolean;
+  isSideways: boolean; // 横向きに置かれている（正位置・逆位置のどちらでもない）
+  angle: number; // 撮影画像の中での正位置からの回転角（度、-180～180、画像座標で時計回りが正）
+  confidence: number; // 0～1
+}
+
+// カードの置き方（表示用）
+export type CardPlacement = 'upright' | 'reversed' | 'sideways';
+
+// 信頼度が最大になるために必要なマッチ数
+const FULL_CONFIDENCE_MATCHES = 30;
+
+// 角度を-180～180度に正規化
+function normalizeAngle(angle: number): number {
+  const normalized = ((angle % 360) + 360) % 360;
+  return normalized > 180 ? normalized - 360 : normalized;
+}
+
+// 撮影画像 → マスター画像のホモグラフィ（3x3、行優先）と、切り出し画像の撮影画像の中での回転角から向きを推定する
+// 切り出し画像はカードを縦長に補正済みのため、ホモグラフィの回転角は本来0度（正位置）か180度（逆位置）付近になり、
+// 横向きに写っていたカードの回転は切り出し時の回転角（frameRotation、cardGeometryのcanonicalCardRotation）に含まれる
+// 信頼度は「ホモグラフィの回転角が0度/180度にどれだけ近いか」と「推定に使ったマッチ数」の積とする
+export function estimateOrientation(
+  homography: ArrayLike<number>,
+  supportingMatches: number,
+  frameRotation: number = 0
+): CardOrientation {
+  // 切り出し画像がマスター画像をθ回転したものであれば、H ≒ R(-θ) となる
+  const homographyAngle = Math.atan2(-homography[3], homography[0]) * (180 / Math.PI);
+  const angle = normalizeAngle(homographyAngle + frameRotation);
+  const isReversed = Math.abs(angle) > 135;
+  const isSideways = !isReversed && Math.abs(angle) > 45;
+
+  const axisAlignment = Math.abs(Math.cos(homographyAngle * (Math.PI / 180)));
+  const support = Math.min(1, supportingMatches / FULL_CONFIDENCE_MATCHES);
+
+  return {
+    isReversed,
+    isSideways,
+    angle: Math.round(angle * 10) / 10,
+    confidence: Math.round(axisAlignment * support * 100) / 100,
+  };
+}
+
+// 推定した向きからカードの置き方を判定（isSidewaysのない以前の履歴は正位置/逆位置のみ）
+export function cardPlacement(orientation: CardOrientation): CardPlacement {
+  if (orientation.isReversed) return 'reversed';
+  return orientation.isSideways ? 'sideways' : 'upright';
+}
@@ -0,0 +1,105 @@
+// フレームごとに独立して検出されるカードの四角形を時間方向に追跡・平滑化する
+import { distance, type Point } from '@/src/lib/cardGeometry';
+
+export interface QuadTrack {
+  id: number; // 追跡ID（別のカードに切り替わったと判断した場合は新しいIDになる）
+  points: Point[]; // 平滑化後の頂点（左上、右上、右下、左下）
+  stability: number; // 安定度（0～1、頂点の揺れが小さいほど1に近い）
+  isObserved: boolean; // このフレームの観測で更新されたか（falseの場合は途切れを補完中）
+}
+
+export interface QuadTrackerOptions {
+  smoothing?: number; // 新しい観測値の重み（0～1、小さいほど滑らかだが追従が遅くなる）
+  outlierRatio?: number; // 外れ値とみなす頂点の平均移動量（カードの対角線長に対する比率）
+  maxOutlierFrames?: number; // 外れ値が何フレーム続いたら別のカードとして追跡し直すか
+  maxMissedMs?: number; // 検出が途切れても追跡を維持する時間（ミリ秒）
+}
+
+export interface QuadTracker {
+  update: (observation: Point[] | null, now: number) => QuadTrack | null;
+  reset: () => void;
+}
+
+interface TrackState {
+  id: number;
+  points: Point[];
+  stability: number;
+  lastSeen: number;
+  outlierFrames: number;
+}
+
+export function createQuadTracker({
+  smoothing = 0.4,
+  outlierRatio = 0.15,
+  maxOutlierFrames = 3,
+  maxMissedMs = 500,
+}: QuadTrackerOptions = {}): QuadTracker {
+  let nextId = 1;
+  let state: TrackState | null = null;
+
+  const startTrack = (observation: Point[], now: number): TrackState => {
+    state = {
+      id: nextId++,
+      points: observation.map((p) => ({ ...p })),
+      stability: 0,
+      lastSeen: now,
+      outlierFrames: 0,
+    };
+    return state;
+  };
+
+  const snapshot = (track: TrackState, isObserved: boolean): QuadTrack => ({
+    id: track.id,
+    points: track.points.map((p) => ({ ...p })),
+    stability: Math.round(track.stability * 100) / 100,
+    isObserved,
+  });
+
+  const update = (observation: Point[] | null, now: number): QuadTrack | null => {
+    if (!observation) {
+      if (!state) return null;
+      if (now - state.lastSeen > maxMissedMs) {
+        state = null;
+        return null;
+      }
+      // 途切れている間は前回の推定値を維持し、安定度を徐々に下げる
+      state.stability *= 0.9;
+      return snapshot(state, false);
+    }
+
+    if (!state) {
+      return snapshot(startTrack(observation, now), true);
+    }
+
+    // 推定値からの頂点の平均移動量（残差）で外れ値を判定
+    const residual = observation.reduce((sum, p, i) => sum + distance(p, state!.points[i]), 0) / observation.length;
+    const outlierDistance = distance(state.points[0], state.points[2]) * outlierRatio;
+
+    if (residual > outlierDistance) {
+      state.outlierFrames += 1;
+      if (state.outlierFrames >= maxOutlierFrames) {
+        // 外れ値が続く場合はカードが入れ替わったとみなして追跡し直す
+        return snapshot(startTrack(observation, now), true);
+      }
+      // 単発の外れ値は無視して前回の推定値を維持
+      return snapshot(state, false);
+    }
+
+    state.outlierFrames = 0;
+    state.lastSeen = now;
+    state.points = state.points.map((p, i) => ({
+      x: p.x + (observation[i].x - p.x) * smoothing,
+      y: p.y + (observation[i].y - p.y) * smoothing,
+    }));
+    const motion = outlierDistance > 0 ? Math.min(1, residual / outlierDistance) : 1;
+    state.stability += ((1 - motion) - state.stability) * smoothing;
+
+    return snapshot(state, true);
+  };
+
+  const reset = () => {
+    state = null;
+  };
+
+  return { update, reset };
+}
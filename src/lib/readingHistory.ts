@@ -0,0 +1,96 @@
+// リーディング（撮影1回分の解析結果）の履歴の保存と検索
+// 撮影した画像・候補・除外リストをそのまま保存し、再読み込み後も解析結果を復元できるようにする
+import { READINGS_STORE, withStore } from '@/src/lib/appDatabase';
+import { getCardDisplayName } from '@/src/lib/cardCatalogue';
+import type { DetectedRect } from '@/src/lib/cardDetection';
+import type { Candidate, MatchTiming } from '@/src/lib/cardMatching';
+import { LOCALES, type LocalizedText } from '@/src/lib/i18n';
+import { assessConfidence, type ConfidenceThresholds } from '@/src/lib/matchConfidence';
+import type { CardOrientation } from '@/src/lib/orientation';
+
+// 保存する候補の数（スコア順の上位）
+export const READING_CANDIDATE_LIMIT = 10;
+
+// 最終的に選ばれたカード（除外リストを反映した信頼できる1位の候補）
+export interface ReadingChoice {
+  cardId: string;
+  displayName: string;
+  score: number;
+  orientation: CardOrientation | null;
+}
+
+// リーディング内の1枚分の結果
+export interface ReadingCard {
+  position: number; // 読み順（1始まり、単一カードでは1）
+  rect: DetectedRect | null; // 複数カードの場合の検出矩形
+  image: string | null; // 複数カードの場合の切り出し画像（PNGのデータURL、単一カードでは記録の画像を使う）
+  candidates: Candidate[]; // スコア順の上位候補（除外前）
+  timing: MatchTiming;
+  deckId: string;
+  chosen: ReadingChoice | null; // 信頼できる候補がない場合はnull
+  spreadPosition?: LocalizedText; // リーディングセッション中の場合、割り当てたスプレッドの位置
+}
+
+export interface ReadingRecord {
+  id: string;
+  createdAt: number; // 撮影日時（エポックミリ秒）
+  mode: 'single' | 'spread';
+  image: string; // 撮影した画像（データURL、カメラはPNG・読み込んだ写真の全体はJPEG）
+  cards: ReadingCard[];
+  blacklist: string[]; // 除外したカードID
+  note: string; // 相談者名などのメモ（検索対象）
+  spread?: { sessionId: string; name: LocalizedText }; // リーディングセッション中に撮影した場合のスプレッド
+}
+
+// 候補から最終的に選ばれたカードを決める（除外したカード・スプレッドに配置済みのカードは候補から除く）
+export function chooseCard(
+  candidates: Candidate[],
+  excludedCardIds: string[],
+  thresholds: ConfidenceThresholds
+): ReadingChoice | null {
+  const filtered = candidates.filter((c) => !excludedCardIds.includes(c.cardId));
+  const confidence = assessConfidence(filtered, thresholds);
+  if (!confidence?.isConfident) {
+    return null;
+  }
+  const [best] = filtered;
+  return { cardId: best.cardId, displayName: best.displayName, score: best.score, orientation: best.orientation };
+}
+
+// 保存済みのリーディング（新しい順）
+export async function listReadings(): Promise<ReadingRecord[]> {
+  const readings = await withStore<ReadingRecord[]>(READINGS_STORE, 'readonly', (store) => store.getAll());
+  return readings.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function getReading(id: string): Promise<ReadingRecord | undefined> {
+  return withStore<ReadingRecord | undefined>(READINGS_STORE, 'readonly', (store) => store.get(id));
+}
+
+export function saveReading(reading: ReadingRecord): Promise<IDBValidKey> {
+  return withStore(READINGS_STORE, 'readwrite', (store) => store.put(reading));
+}
+
+export function deleteReading(id: string): Promise<undefined> {
+  return withStore(READINGS_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+// キーワードでリーディングを絞り込む（空白区切りのすべての語を含むもの）
+// メモ・スプレッド名・選ばれたカードの名前（すべての言語）とID・撮影日（例: 2025/1/15）を対象とする
+export function searchReadings(readings: ReadingRecord[], query: string): ReadingRecord[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return readings;
+  }
+  return readings.filter((reading) => {
+    const text = [
+      reading.note,
+      ...(reading.spread ? Object.values(reading.spread.name) : []),
+      new Date(reading.createdAt).toLocaleDateString(),
+      ...reading.cards.flatMap((card) =>
+        card.chosen ? [card.chosen.cardId, ...LOCALES.map((locale) => getCardDisplayName(card.chosen!.cardId, locale))] : []
+      ),
+    ].join(' ').toLowerCase();
+    return terms.every((term) => text.includes(term));
+  });
+}
@@ -0,0 +1,136 @@
+// スプレッド（カードの配置）の定義と、リーディングセッションの配置状況
+// セッションでは撮影したカードを空いている位置に順に割り当て、配置済みのカードは以降の候補から除く
+import type { LocalizedText } from '@/src/lib/i18n';
+import type { ReadingChoice, ReadingRecord } from '@/src/lib/readingHistory';
+
+export interface SpreadPosition {
+  label: LocalizedText; // 位置の意味（例: 過去、現在、未来）
+  x: number; // レイアウト上の位置（カードの幅を1とする単位、左上が原点）
+  y: number;
+  rotated?: boolean; // 横向きに置く位置（ケルト十字の2枚目など）
+}
+
+export interface SpreadDefinition {
+  id: string;
+  name: LocalizedText;
+  positions: SpreadPosition[];
+}
+
+// レイアウト上のカードの高さ（幅に対する比率）
+export const SPREAD_CARD_HEIGHT = 1.5;
+
+export const BUILT_IN_SPREADS: SpreadDefinition[] = [
+  {
+    id: 'single',
+    name: { ja: 'ワンオラクル', en: 'One Card' },
+    positions: [{ label: { ja: 'カード', en: 'Card' }, x: 0, y: 0 }],
+  },
+  {
+    id: 'three-card',
+    name: { ja: 'スリーカード', en: 'Three Cards' },
+    positions: [
+      { label: { ja: '過去', en: 'Past' }, x: 0, y: 0 },
+      { label: { ja: '現在', en: 'Present' }, x: 1.2, y: 0 },
+      { label: { ja: '未来', en: 'Future' }, x: 2.4, y: 0 },
+    ],
+  },
+  {
+    id: 'celtic-cross',
+    name: { ja: 'ケルト十字', en: 'Celtic Cross' },
+    positions: [
+      { label: { ja: '現在の状況', en: 'Present situation' }, x: 1.2, y: 2.4 },
+      { label: { ja: '障害・試練', en: 'Challenge' }, x: 1.2, y: 2.4, rotated: true },
+      { label: { ja: '顕在意識（目標）', en: 'Conscious goal' }, x: 1.2, y: 0.8 },
+      { label: { ja: '潜在意識（根本）', en: 'Subconscious root' }, x: 1.2, y: 4.0 },
+      { label: { ja: '過去', en: 'Past' }, x: 0, y: 2.4 },
+      { label: { ja: '近い未来', en: 'Near future' }, x: 2.4, y: 2.4 },
+      { label: { ja: '本人の立場', en: 'Self' }, x: 3.8, y: 4.8 },
+      { label: { ja: '周囲の環境', en: 'Environment' }, x: 3.8, y: 3.2 },
+      { label: { ja: '願望・恐れ', en: 'Hopes and fears' }, x: 3.8, y: 1.6 },
+      { label: { ja: '最終結果', en: 'Outcome' }, x: 3.8, y: 0 },
+    ],
+  },
+];
+
+// カスタムスプレッドの1行あたりの枚数
+const CUSTOM_SPREAD_COLUMNS = 5;
+
+// 位置の名前の一覧からカスタムスプレッドを作成（左上から横に並べる、名前は入力したものをどの言語でも使う）
+export function createCustomSpread(labels: string[]): SpreadDefinition {
+  return {
+    id: 'custom',
+    name: { ja: 'カスタム', en: 'Custom' },
+    positions: labels.map((label, i) => ({
+      label: { ja: label, en: label },
+      x: (i % CUSTOM_SPREAD_COLUMNS) * 1.2,
+      y: Math.floor(i / CUSTOM_SPREAD_COLUMNS) * (SPREAD_CARD_HEIGHT + 0.2),
+    })),
+  };
+}
+
+// リーディングセッション（位置ごとに、割り当てたリーディングのカードを記録する）
+export interface SpreadSession {
+  id: string;
+  spread: SpreadDefinition;
+  assignments: Array<{ readingId: string; cardIndex: number } | null>; // 位置の順
+}
+
+// 位置に配置されたカード
+export interface SpreadPlacement {
+  readingId: string;
+  choice: ReadingChoice | null; // 信頼できる候補がない場合はnull（その位置は空いているものとして扱う）
+  image: string; // 切り出し画像（PNGのデータURL）
+}
+
+export function createSpreadSession(spread: SpreadDefinition): SpreadSession {
+  return {
+    id: crypto.randomUUID(),
+    spread,
+    assignments: spread.positions.map(() => null),
+  };
+}
+
+// 割り当てたリーディングから、位置ごとの配置を求める（リーディングが見つからない位置はnull）
+export function resolvePlacements(session: SpreadSession, readings: ReadingRecord[]): Array<SpreadPlacement | null> {
+  return session.assignments.map((assignment) => {
+    const reading = assignment && readings.find((r) => r.id === assignment.readingId);
+    const card = reading?.cards[assignment!.cardIndex];
+    if (!reading || !card) {
+      return null;
+    }
+    return { readingId: reading.id, choice: card.chosen, image: card.image ?? reading.image };
+  });
+}
+
+// カードを配置できる位置（未配置か、信頼できる候補がなかった位置）の番号
+export function availablePositions(placements: Array<SpreadPlacement | null>): number[] {
+  return placements.flatMap((placement, index) => (placement?.choice ? [] : [index]));
+}
+
+// 配置済みのカードID（指定したリーディングのカードを除く）
+export function placedCardIds(placements: Array<SpreadPlacement | null>, exceptReadingId: string | null): string[] {
+  return placements.flatMap((placement) =>
+    placement?.choice && placement.readingId !== exceptReadingId ? [placement.choice.cardId] : []
+  );
+}
+
+// リーディングのカードを空いている位置に順に割り当てる（位置が足りない分は割り当てない）
+// 割り当てた位置の番号をカードの順に返す（割り当てなかったカードはnull）
+export function assignReading(
+  session: SpreadSession,
+  placements: Array<SpreadPlacement | null>,
+  readingId: string,
+  cardCount: number
+): { session: SpreadSession; positions: Array<number | null> } {
+  const available = availablePositions(placements);
+  const assignments = [...session.assignments];
+  const positions = Array.from({ length: cardCount }, (_, cardIndex) => {
+    const position = available[cardIndex];
+    if (position === undefined) {
+      return null;
+    }
+    assignments[position] = { readingId, cardIndex };
+    return position;
+  });
+  return { session: { ...session, assignments }, positions };
+}
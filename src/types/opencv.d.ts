@@ -12,6 +12,11 @@ declare global {
       imshow: (canvasId: string | HTMLCanvasElement, mat: any) => void;
       cvtColor: (src: any, dst: any, code: number, dstCn?: number) => void;
       COLOR_RGBA2GRAY: number;
+      COLOR_RGBA2RGB: number;
+      COLOR_RGB2HSV: number;
+      calcHist: (images: any, channels: number[], mask: any, hist: any, histSize: number[], ranges: number[], accumulate?: boolean) => void;
+      resize: (src: any, dst: any, dsize: any, fx?: number, fy?: number, interpolation?: number) => void;
+      INTER_AREA: number;
       COLOR_GRAY2RGBA: number;
       COLOR_BGR2RGBA: number;
       addWeighted: (src1: any, alpha: number, src2: any, beta: number, gamma: number, dst: any) => void;
@@ -22,6 +27,8 @@ declare global {
       ORB_create?: (maxFeatures?: number) => any;
       BFMatcher: any;
       BFMatcher_create?: (normType?: number, crossCheck?: boolean) => any;
+      AKAZE: any;
+      BRISK: any;
       NORM_HAMMING: number;
       NORM_HAMMING2: number;
       KeyPointVector: {
@@ -72,22 +79,30 @@ declare global {
       THRESH_TOZERO_INV: number;
       THRESH_OTSU: number;
       matFromArray: (rows: number, cols: number, type: number, array: number[]) => any;
+      matFromImageData: (imageData: { data: Uint8ClampedArray; width: number; height: number }) => any;
+      CV_8U: number;
       CV_32FC2: number;
       getPerspectiveTransform: (src: any, dst: any) => any;
       warpPerspective: (src: any, dst: any, M: any, dsize: any, flags?: number, borderMode?: number, borderValue?: any) => void;
+      countNonZero: (src: any) => number;
       findHomography: (srcPoints: any, dstPoints: any, method?: number, ransacReprojThreshold?: number, mask?: any, maxIters?: number, confidence?: number) => any;
       RANSAC: number;
       LMEDS: number;
     };
   }
   
+  // window.cv の型（ワーカー等からcvを引数で受け渡す際に使用）
+  type OpenCV = Window['cv'];
+
   interface Mat {
     convertTo: (dst: any, type: number, alpha?: number, beta?: number) => void;
     delete: () => void;
     rows: number;
     cols: number;
+    data: Uint8Array;
     data32S: Int32Array;
     data32F: Float32Array;
+    data64F: Float64Array;
     data8U: Uint8Array;
   }
   
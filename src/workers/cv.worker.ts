@@ -0,0 +1,550 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// OpenCV.jsによる画像処理（カード検出・マッチング）を行うWeb Worker
+// 重い処理をメインスレッドから切り離し、解析中もUIが固まらないようにする
+import { enhanceContrast, detectCardRects, type DetectedRect } from '@/src/lib/cardDetection';
+import { warpCardToCanonical, quadArea } from '@/src/lib/cardGeometry';
+import { getCardDisplayName } from '@/src/lib/cardCatalogue';
+import { detectStillCards, matchAcrossDecks, type DeckMasterData } from '@/src/lib/cardRecognition';
+import {
+  descriptorDatabaseUrl,
+  fetchDescriptorDatabase,
+  isDescriptorDatabaseCompatible,
+  loadDescriptorDatabase,
+} from '@/src/lib/descriptorDatabase';
+import { enrolledSampleFileName } from '@/src/lib/enrollmentStore';
+import { FEATURE_STRATEGIES, DEFAULT_FEATURE_STRATEGY, type FeatureStrategy } from '@/src/lib/featureStrategies';
+import { createLogger, setLogForwarder, setLogThreshold } from '@/src/lib/logger';
+import {
+  AUTO_DETECT_DECK,
+  computeMasterImageData,
+  fetchMasterManifest,
+  findManifestIncompatibility,
+  listDecks,
+  loadMasterData,
+  releaseMasterData,
+  type MasterData,
+  type MasterList,
+} from '@/src/lib/masterData';
+import { waitForOpenCv } from '@/src/lib/opencvRuntime';
+import { fetchVerifiedScript, withTimeout } from '@/src/lib/opencvLoader';
+import { createQuadTracker } from '@/src/lib/quadTracker';
+import type { CvWorkerRequest, CvWorkerResponse } from '@/src/workers/cvWorkerMessages';
+
+declare function importScripts(...urls: string[]): void;
+
+interface CvWorkerScope {
+  cv?: any;
+  onmessage: ((event: MessageEvent<CvWorkerRequest>) => void) | null;
+  postMessage: (message: CvWorkerResponse, transfer?: Transferable[]) => void;
+}
+
+const scope = self as unknown as CvWorkerScope;
+
+let cv: OpenCV | null = null;
+// 読み込み中のデッキのマスターデータ（自動判別の場合は全デッキ）
+let masterDecks: DeckMasterData[] = [];
+// masterDecksの構築に使った特徴量の戦略（マッチングでも同じ戦略を使う）
+let featureStrategy: FeatureStrategy = FEATURE_STRATEGIES[DEFAULT_FEATURE_STRATEGY];
+// 最後に要求された戦略とデッキ（nullの場合はマニフェストの最初のデッキ）
+let masterSelection: { strategy: FeatureStrategy; deck: string | null } = {
+  strategy: featureStrategy,
+  deck: null,
+};
+// マスターデータの取得元（戦略の切り替え時に再構築するため保持）
+let masterSources: { descriptorDatabaseBaseUrl: string; masterListUrl: string; masterBaseUrl: string } | null = null;
+// アプリ内で登録されたマスター画像（マスターデータを構築するたびに、その戦略で特徴量を計算して追加する）
+const enrolledSamples = new Map<string, { deckId: string; cardId: string; image: ImageData }>();
+// 実行中のマスターデータ構築を識別する番号
+let masterBuildGeneration = 0;
+// 単一カードモードで検出された四角形を追跡・平滑化するトラッカー
+const quadTracker = createQuadTracker();
+let lastTrackId: number | null = null;
+
+const loadingLog = createLogger('loading');
+const detectionLog = createLogger('detection');
+const matchingLog = createLogger('matching');
+const enrollmentLog = createLogger('enrollment');
+
+function post(message: CvWorkerResponse, transfer: Transferable[] = []) {
+  scope.postMessage(message, transfer);
+}
+
+// warn以上のログはメインスレッドの診断パネルに表示する
+setLogForwarder((entry) => post({ type: 'log', entry }));
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// ImageBitmapをRGBAの画素データに変換
+function bitmapToImageData(bitmap: ImageBitmap): ImageData {
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('OffscreenCanvasの2Dコンテキストを取得できません');
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  return ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+}
+
+// RGBAのMatを画素データとしてコピー
+function matToImageData(mat: Mat): ImageData {
+  return new ImageData(new Uint8ClampedArray(mat.data), mat.cols, mat.rows);
+}
+
+// 画素データをPNGのデータURLに変換
+async function imageDataToDataURL(imageData: ImageData): Promise<string> {
+  const canvas = new OffscreenCanvas(imageData.width, imageData.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('OffscreenCanvasの2Dコンテキストを取得できません');
+  }
+  ctx.putImageData(imageData, 0, 0);
+  const blob = await canvas.convertToBlob({ type: 'image/png' });
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// マスター画像をfetchして画素データを取得
+async function loadRgbaImage(path: string): Promise<ImageData> {
+  const response = await fetch(path);
+  if (!response.ok) {
+    throw new Error(`${path} の読み込みに失敗しました: ${response.status}`);
+  }
+  const bitmap = await createImageBitmap(await response.blob());
+  try {
+    return bitmapToImageData(bitmap);
+  } finally {
+    bitmap.close();
+  }
+}
+
+// OpenCV.jsのロード（失敗した場合は間隔を空けて再試行）
+async function loadOpenCv(request: Extract<CvWorkerRequest, { type: 'init' }>): Promise<OpenCV> {
+  const { openCvUrl, openCvIntegrity, openCvTimeoutMs, openCvMaxAttempts } = request;
+  let lastError: unknown = null;
+
+  for (let attempt = 1; attempt <= openCvMaxAttempts; attempt++) {
+    try {
+      loadingLog.info(`OpenCV.jsをロード中 (${attempt}/${openCvMaxAttempts}): ${openCvUrl}`);
+      const scriptUrl = await fetchVerifiedScript(openCvUrl, openCvIntegrity, openCvTimeoutMs);
+      try {
+        importScripts(scriptUrl);
+      } finally {
+        URL.revokeObjectURL(scriptUrl);
+      }
+      const { cv } = await withTimeout(
+        waitForOpenCv(scope.cv),
+        openCvTimeoutMs,
+        `OpenCV.jsの初期化がタイムアウトしました（${openCvTimeoutMs / 1000}秒）`
+      );
+      return cv;
+    } catch (error) {
+      lastError = error;
+      loadingLog.warn(`OpenCV.jsのロードに失敗しました (${attempt}/${openCvMaxAttempts}):`, error);
+      if (attempt < openCvMaxAttempts) {
+        await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** (attempt - 1)));
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+// ビルド時に計算済みの特徴量を読み込む（使用できない場合はnullを返す）
+async function loadPrecomputedMasterData(
+  cv: OpenCV,
+  deckId: string,
+  strategy: FeatureStrategy,
+  baseUrl: string
+): Promise<Map<string, MasterData> | null> {
+  try {
+    const database = await fetchDescriptorDatabase(descriptorDatabaseUrl(deckId, strategy.id, baseUrl));
+    if (!isDescriptorDatabaseCompatible(database, strategy)) {
+      loadingLog.warn(`計算済み特徴量の形式・設定が現在の設定（${strategy.label}）と異なるため使用しません`);
+      return null;
+    }
+    return loadDescriptorDatabase(cv, database);
+  } catch (error) {
+    loadingLog.warn('計算済み特徴量を読み込めませんでした:', error);
+    return null;
+  }
+}
+
+// 1つのデッキのマスターデータを構築（計算済み特徴量がない場合はマスター画像から計算）
+async function loadDeckMasterData(
+  cv: OpenCV,
+  deckId: string,
+  masterList: MasterList,
+  strategy: FeatureStrategy
+): Promise<Map<string, MasterData>> {
+  const { descriptorDatabaseBaseUrl, masterBaseUrl } = masterSources!;
+  const map = await loadPrecomputedMasterData(cv, deckId, strategy, descriptorDatabaseBaseUrl);
+  if (map && map.size > 0) {
+    return map;
+  }
+  if (map) {
+    releaseMasterData(map);
+  }
+  // 計算済み特徴量がない場合は、マスター画像をダウンロードしてその場で計算する
+  loadingLog.info(`[${deckId}] マスター画像から特徴量を計算します...`);
+  return loadMasterData(cv, masterList, loadRgbaImage, strategy, `${masterBaseUrl}/${deckId}`);
+}
+
+function releaseMasterDecks(decks: DeckMasterData[]) {
+  decks.forEach((deck) => releaseMasterData(deck.cards));
+}
+
+// 登録サンプルの特徴量を計算し、同じデッキのマスターデータに追加する（デッキを読み込んでいない場合は何もしない）
+function addEnrolledSampleToDecks(cv: OpenCV, decks: DeckMasterData[], strategy: FeatureStrategy, id: string) {
+  const sample = enrolledSamples.get(id);
+  const deck = decks.find((d) => d.id === sample?.deckId);
+  if (!sample || !deck) {
+    return;
+  }
+
+  const src = cv.matFromImageData(sample.image);
+  try {
+    const imageData = computeMasterImageData(cv, src, strategy, enrolledSampleFileName({ id, cardId: sample.cardId }));
+    const masterData = deck.cards.get(sample.cardId);
+    if (masterData) {
+      masterData.images.push(imageData);
+    } else {
+      deck.cards.set(sample.cardId, { images: [imageData], displayName: getCardDisplayName(sample.cardId) });
+    }
+    enrollmentLog.debug(`✓ 登録サンプル ${imageData.file} (${deck.id}/${sample.cardId}): ${imageData.keypoints.length} 個の特徴点`);
+  } catch (error) {
+    enrollmentLog.error(`✗ 登録サンプル(${deck.id}/${sample.cardId})の特徴量計算エラー:`, error);
+  } finally {
+    src.delete();
+  }
+}
+
+// 登録サンプルをマスターデータから取り除く
+function removeEnrolledSampleFromDecks(decks: DeckMasterData[], id: string, cardId: string) {
+  const file = enrolledSampleFileName({ id, cardId });
+  for (const deck of decks) {
+    const masterData = deck.cards.get(cardId);
+    if (!masterData) {
+      continue;
+    }
+    for (const image of masterData.images.filter((img) => img.file === file)) {
+      image.descriptors.delete();
+    }
+    masterData.images = masterData.images.filter((img) => img.file !== file);
+    if (masterData.images.length === 0) {
+      deck.cards.delete(cardId);
+    }
+  }
+}
+
+// 選択されている戦略・デッキでマスターデータを構築し、構築できたら使用中のデータと入れ替える
+// 構築中に別の戦略・デッキが選ばれた場合は、古い方の結果を破棄する
+async function buildMasterData() {
+  if (!cv || !masterSources) {
+    return;
+  }
+  const generation = ++masterBuildGeneration;
+  const { strategy, deck: requestedDeck } = masterSelection;
+  const decks: DeckMasterData[] = [];
+
+  try {
+    const manifest = await fetchMasterManifest(masterSources.masterListUrl);
+    const incompatibility = findManifestIncompatibility(manifest);
+    if (incompatibility) {
+      loadingLog.error(`マスターデータの初期化エラー: ${incompatibility}`);
+      post({ type: 'initError', stage: 'manifest', message: incompatibility });
+      return;
+    }
+    const deckInfos = listDecks(manifest);
+    if (deckInfos.length === 0) {
+      throw new Error('master-list.json にデッキがありません');
+    }
+
+    // 自動判別では全デッキ、それ以外は指定したデッキ（見つからない場合は最初のデッキ）を読み込む
+    let deck = requestedDeck ?? deckInfos[0].id;
+    if (deck !== AUTO_DETECT_DECK && !manifest.decks[deck]) {
+      loadingLog.warn(`デッキ「${deck}」が見つからないため、${deckInfos[0].id} を使用します`);
+      deck = deckInfos[0].id;
+    }
+    const deckIds = deck === AUTO_DETECT_DECK ? deckInfos.map((info) => info.id) : [deck];
+
+    loadingLog.info(`マスターデータの初期化を開始... (${strategy.label}, デッキ: ${deckIds.join(', ')})`);
+    for (const deckId of deckIds) {
+      const cards = await loadDeckMasterData(cv, deckId, manifest.decks[deckId].cards, strategy);
+      decks.push({ id: deckId, cards });
+    }
+    for (const id of enrolledSamples.keys()) {
+      addEnrolledSampleToDecks(cv, decks, strategy, id);
+    }
+
+    if (generation !== masterBuildGeneration) {
+      loadingLog.info(`[${strategy.label}] 別の戦略・デッキが選択されたため、構築したマスターデータを破棄します`);
+      releaseMasterDecks(decks);
+      return;
+    }
+    const cardCount = decks.reduce((sum, d) => sum + d.cards.size, 0);
+    if (cardCount === 0) {
+      throw new Error('マスターデータが1枚もロードできませんでした');
+    }
+
+    const previous = masterDecks;
+    masterDecks = decks;
+    featureStrategy = strategy;
+    releaseMasterDecks(previous);
+
+    for (const d of masterDecks) {
+      loadingLog.debug(`[${d.id}] 利用可能なカード: ${Array.from(d.cards.keys()).join(', ')}`);
+    }
+    post({ type: 'masterReady', cardCount, featureStrategy: strategy.id, deck, decks: deckInfos });
+  } catch (error) {
+    releaseMasterDecks(decks);
+    if (generation !== masterBuildGeneration) {
+      return;
+    }
+    loadingLog.error('マスターデータの初期化エラー:', error);
+    post({ type: 'initError', stage: 'master', message: errorMessage(error) });
+  }
+}
+
+// OpenCV.jsとマスターデータの初期化
+async function initialize(request: Extract<CvWorkerRequest, { type: 'init' }>) {
+  setLogThreshold(request.logLevel);
+  try {
+    cv = await loadOpenCv(request);
+    loadingLog.info('OpenCV.jsの初期化完了 - 準備完了');
+    post({ type: 'cvReady' });
+  } catch (error) {
+    loadingLog.error('OpenCV.jsのロードに失敗しました:', error);
+    post({ type: 'initError', stage: 'opencv', message: errorMessage(error) });
+    return;
+  }
+
+  masterSources = {
+    descriptorDatabaseBaseUrl: request.descriptorDatabaseBaseUrl,
+    masterListUrl: request.masterListUrl,
+    masterBaseUrl: request.masterBaseUrl,
+  };
+  masterSelection = { strategy: FEATURE_STRATEGIES[request.featureStrategy], deck: request.deck };
+  await buildMasterData();
+}
+
+// 切り出し画像（RGBAのMat）をPNGのデータURLにする（Matはここで解放する）
+function cropsToDataURLs(crops: any[]): Promise<string[]> {
+  const cropImageData = crops.map((crop) => {
+    try {
+      return matToImageData(crop);
+    } finally {
+      crop.delete();
+    }
+  });
+  return Promise.all(cropImageData.map(imageDataToDataURL));
+}
+
+// 矩形領域を透視変換で正面・縦長のカード画像に補正し、PNGのデータURLにする
+function rectifyCards(src: any, rects: DetectedRect[]): Promise<string[]> {
+  return cropsToDataURLs(rects.map((rect) => warpCardToCanonical(cv!, src, rect.points)));
+}
+
+// 1フレーム分のカード検出
+async function detectFrame(request: Extract<CvWorkerRequest, { type: 'detect' }>) {
+  const { frameId, frame, multiCard } = request;
+  const startedAt = performance.now();
+  if (!cv) {
+    frame.close();
+    post({ type: 'detectError', frameId, message: 'OpenCV.jsが初期化されていません' });
+    return;
+  }
+
+  let src: any = null;
+  let contrast: any = null;
+  let rgba: any = null;
+  // メインスレッドに転送するまではこちらで解放する
+  let preview: ImageBitmap | null = null;
+
+  try {
+    src = cv.matFromImageData(bitmapToImageData(frame));
+    contrast = enhanceContrast(cv, src);
+
+    // プレビュー用にグレースケールをRGBAに変換
+    rgba = new cv.Mat();
+    cv.cvtColor(contrast, rgba, cv.COLOR_GRAY2RGBA);
+    preview = await createImageBitmap(matToImageData(rgba));
+
+    const { rects: detectedRects, ...stats } = detectCardRects(cv, contrast, multiCard);
+
+    let rects: DetectedRect[] = detectedRects;
+    const cropRects: DetectedRect[] = [];
+    let isTrackObserved = false;
+    let trackLost = false;
+
+    if (multiCard) {
+      cropRects.push(...rects);
+    } else {
+      // 観測した矩形をトラッカーで平滑化し、短い検出の途切れを補完する
+      const observed = rects[0] ?? null;
+      const track = quadTracker.update(observed?.points ?? null, Date.now());
+      if (track) {
+        rects = [{
+          points: track.points,
+          area: observed?.area ?? quadArea(track.points),
+          trackId: track.id,
+          stability: track.stability,
+        }];
+        isTrackObserved = track.isObserved;
+        if (track.isObserved) {
+          cropRects.push(rects[0]);
+        }
+        lastTrackId = track.id;
+      } else {
+        rects = [];
+        if (lastTrackId !== null) {
+          detectionLog.debug(`追跡ID ${lastTrackId} の追跡が途切れました`);
+          trackLost = true;
+          lastTrackId = null;
+        }
+      }
+    }
+
+    const images = await rectifyCards(src, cropRects);
+
+    const diagnostics = { ...stats, detectMs: Math.round(performance.now() - startedAt) };
+    post({ type: 'detectResult', frameId, preview, rects, images, isTrackObserved, trackLost, diagnostics }, [preview]);
+    preview = null;
+  } catch (error) {
+    post({ type: 'detectError', frameId, message: errorMessage(error) });
+  } finally {
+    frame.close();
+    if (preview) preview.close();
+    if (src) src.delete();
+    if (contrast) contrast.delete();
+    if (rgba) rgba.delete();
+  }
+}
+
+// 静止画（アップロード・貼り付けた画像）のカード検出
+async function detectStill(request: Extract<CvWorkerRequest, { type: 'detectStill' }>) {
+  const { requestId, image, multiCard } = request;
+  if (!cv) {
+    image.close();
+    post({ type: 'detectStillError', requestId, message: 'OpenCV.jsが初期化されていません' });
+    return;
+  }
+
+  let src: any = null;
+
+  try {
+    src = cv.matFromImageData(bitmapToImageData(image));
+    const { rects, crops, stats } = detectStillCards(cv, src, multiCard);
+    const images = await cropsToDataURLs(crops);
+    detectionLog.info(`静止画から ${rects.length} 枚のカードを検出しました`, stats);
+    post({ type: 'detectStillResult', requestId, rects, images });
+  } catch (error) {
+    post({ type: 'detectStillError', requestId, message: errorMessage(error) });
+  } finally {
+    image.close();
+    if (src) src.delete();
+  }
+}
+
+// 切り出し画像ごとのマッチング
+function matchImages(request: Extract<CvWorkerRequest, { type: 'match' }>) {
+  const { requestId, images, frameRotations, prefilterTopK } = request;
+  try {
+    if (!cv || masterDecks.length === 0) {
+      throw new Error('OpenCVがロードされていないか、マスターデータが初期化されていません');
+    }
+    const results = images.map((bitmap, i) => {
+      const src = cv!.matFromImageData(bitmapToImageData(bitmap));
+      try {
+        return matchAcrossDecks(cv!, src, masterDecks, featureStrategy, prefilterTopK, frameRotations[i] ?? 0);
+      } finally {
+        src.delete();
+      }
+    });
+    post({ type: 'matchResult', requestId, results });
+  } catch (error) {
+    matchingLog.error('マッチング処理エラー:', error);
+    post({ type: 'matchError', requestId, message: errorMessage(error) });
+  } finally {
+    images.forEach((bitmap) => bitmap.close());
+  }
+}
+
+// 登録サンプルを受け取り、読み込み中のマスターデータに追加する
+// マスターデータの構築前・構築中に届いた場合は、構築の最後に追加される
+function addEnrolledSamples(request: Extract<CvWorkerRequest, { type: 'addEnrolledSamples' }>) {
+  for (const sample of request.samples) {
+    try {
+      if (enrolledSamples.has(sample.id)) {
+        continue;
+      }
+      enrolledSamples.set(sample.id, {
+        deckId: sample.deckId,
+        cardId: sample.cardId,
+        image: bitmapToImageData(sample.image),
+      });
+      if (cv) {
+        addEnrolledSampleToDecks(cv, masterDecks, featureStrategy, sample.id);
+      }
+    } catch (error) {
+      enrollmentLog.error(`登録サンプル(${sample.cardId})の追加エラー:`, error);
+    } finally {
+      sample.image.close();
+    }
+  }
+}
+
+function removeEnrolledSample(id: string) {
+  const sample = enrolledSamples.get(id);
+  if (!sample) {
+    return;
+  }
+  enrolledSamples.delete(id);
+  removeEnrolledSampleFromDecks(masterDecks, id, sample.cardId);
+  enrollmentLog.info(`登録サンプル ${enrolledSampleFileName({ id, cardId: sample.cardId })} を削除しました`);
+}
+
+scope.onmessage = (event) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'init':
+      initialize(request);
+      break;
+    case 'detect':
+      detectFrame(request);
+      break;
+    case 'detectStill':
+      detectStill(request);
+      break;
+    case 'match':
+      matchImages(request);
+      break;
+    case 'setFeatureStrategy':
+      masterSelection = { ...masterSelection, strategy: FEATURE_STRATEGIES[request.featureStrategy] };
+      buildMasterData();
+      break;
+    case 'setDeck':
+      masterSelection = { ...masterSelection, deck: request.deck };
+      buildMasterData();
+      break;
+    case 'addEnrolledSamples':
+      addEnrolledSamples(request);
+      break;
+    case 'removeEnrolledSample':
+      removeEnrolledSample(request.id);
+      break;
+    case 'resetTracker':
+      quadTracker.reset();
+      lastTrackId = null;
+      break;
+    case 'setLogLevel':
+      setLogThreshold(request.logLevel);
+      break;
+  }
+};
@@ -0,0 +1,78 @@
+// メインスレッドとOpenCV Worker間のメッセージ定義
+import type { DetectedRect, DetectionStats } from '@/src/lib/cardDetection';
+import type { DeckMatchResult } from '@/src/lib/cardRecognition';
+import type { FeatureStrategyId } from '@/src/lib/featureStrategies';
+import type { LogEntry, LogThreshold } from '@/src/lib/logger';
+import type { DeckInfo } from '@/src/lib/masterData';
+
+// アプリ内で登録したマスター画像（切り出し・透視補正済みのカード画像）
+export interface EnrolledSampleImage {
+  id: string;
+  deckId: string;
+  cardId: string;
+  image: ImageBitmap;
+}
+
+// 初期化に失敗した段階（OpenCV.jsのロード・マニフェストの互換性確認・マスターデータの構築）
+export type InitErrorStage = 'opencv' | 'manifest' | 'master';
+
+// 1フレーム分の検出の診断情報
+export type FrameDiagnostics = DetectionStats & { detectMs: number };
+
+// メインスレッド → Worker
+export type CvWorkerRequest =
+  | {
+      type: 'init';
+      openCvUrl: string;
+      openCvIntegrity: string;
+      openCvTimeoutMs: number; // 取得・初期化それぞれの制限時間
+      openCvMaxAttempts: number; // 失敗時に再試行する最大回数（初回を含む）
+      featureStrategy: FeatureStrategyId;
+      deck: string | null; // デッキIDまたはAUTO_DETECT_DECK（nullの場合はマニフェストの最初のデッキ）
+      descriptorDatabaseBaseUrl: string; // ビルド時に計算済みの特徴量の配置先（読み込めない場合はマスター画像から計算）
+      masterListUrl: string;
+      masterBaseUrl: string;
+      logLevel: LogThreshold; // Worker内のログをコンソールに出力する最低レベル
+    }
+  | { type: 'detect'; frameId: number; frame: ImageBitmap; multiCard: boolean }
+  | { type: 'detectStill'; requestId: number; image: ImageBitmap; multiCard: boolean } // 静止画のカード検出（トラッカーは使わない）
+  | { type: 'match'; requestId: number; images: ImageBitmap[]; frameRotations: number[]; prefilterTopK: number } // frameRotationsは画像ごとの撮影時の回転角
+  | { type: 'setFeatureStrategy'; featureStrategy: FeatureStrategyId } // マスターデータを指定した戦略で再構築
+  | { type: 'setDeck'; deck: string } // マスターデータを指定したデッキ（またはAUTO_DETECT_DECK）で再構築
+  | { type: 'addEnrolledSamples'; samples: EnrolledSampleImage[] } // 登録サンプルをマスターデータに追加
+  | { type: 'removeEnrolledSample'; id: string }
+  | { type: 'resetTracker' }
+  | { type: 'setLogLevel'; logLevel: LogThreshold };
+
+// Worker → メインスレッド
+export type CvWorkerResponse =
+  | { type: 'cvReady' }
+  | {
+      type: 'masterReady';
+      cardCount: number; // 読み込んだカード数（自動判別では全デッキの合計）
+      featureStrategy: FeatureStrategyId;
+      deck: string; // 読み込んだデッキIDまたはAUTO_DETECT_DECK
+      decks: DeckInfo[]; // マニフェストに含まれるすべてのデッキ
+    }
+  | { type: 'initError'; stage: InitErrorStage; message: string }
+  | {
+      type: 'detectResult';
+      frameId: number;
+      preview: ImageBitmap; // コントラスト強調済みのプレビュー画像
+      rects: DetectedRect[]; // 単一カードモードでは追跡中の矩形（最大1件）、複数カードモードでは読み順
+      images: string[]; // 切り出し・透視補正したカード画像（PNGのデータURL、このフレームで観測できたもののみ）
+      isTrackObserved: boolean; // 単一カードモードで、このフレームの観測で矩形が更新されたか
+      trackLost: boolean; // 単一カードモードで、このフレームで追跡が途切れたか
+      diagnostics: FrameDiagnostics;
+    }
+  | { type: 'detectError'; frameId: number; message: string }
+  | {
+      type: 'detectStillResult';
+      requestId: number;
+      rects: DetectedRect[]; // 単一カードモードでは最大1件、複数カードモードでは読み順
+      images: string[]; // 切り出し・透視補正したカード画像（PNGのデータURL、rectsと同じ順）
+    }
+  | { type: 'detectStillError'; requestId: number; message: string }
+  | { type: 'matchResult'; requestId: number; results: DeckMatchResult[] }
+  | { type: 'matchError'; requestId: number; message: string }
+  | { type: 'log'; entry: Omit<LogEntry, 'id'> }; // Worker内で記録したwarn以上のログ